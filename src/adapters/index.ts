@@ -0,0 +1,45 @@
+import { ConfigError, ScraperConfig, SiteAdapter } from '../types.js';
+import { PoliteianetAdapter, POLITEIANET_SELECTORS } from './politeianet.js';
+
+export { PoliteianetAdapter, POLITEIANET_SELECTORS } from './politeianet.js';
+export { SelectorSiteAdapter } from './selectorAdapter.js';
+
+/**
+ * Builds a site adapter from the scraper configuration
+ * Selector-driven adapters should apply config.selectors over their own selectors
+ */
+export type SiteAdapterFactory = (config: ScraperConfig) => SiteAdapter;
+
+const adapters = new Map<string, SiteAdapterFactory>([
+  ['politeianet', config => new PoliteianetAdapter(config.base.url, { ...POLITEIANET_SELECTORS, ...config.selectors })],
+]);
+
+/**
+ * Registers an adapter under the name selected with SITE
+ */
+export const registerSiteAdapter = (name: string, factory: SiteAdapterFactory): void => {
+  adapters.set(name, factory);
+};
+
+/**
+ * Names of every registered adapter
+ */
+export const getSiteAdapterNames = (): string[] => [...adapters.keys()];
+
+/**
+ * Creates the adapter for the configured site
+ */
+export const createSiteAdapter = (config: ScraperConfig): SiteAdapter => {
+  const factory = adapters.get(config.base.site);
+  if (!factory) {
+    throw new Error(
+      `Unknown site adapter "${config.base.site}". Registered adapters: ${getSiteAdapterNames().join(', ')}`
+    );
+  }
+
+  const adapter = factory(config);
+  if (!adapter.selectors && Object.keys(config.selectors).length > 0) {
+    throw new ConfigError(`Site adapter "${config.base.site}" does not use CSS selectors, so they cannot be replaced`, 'selectors');
+  }
+  return adapter;
+};
@@ -0,0 +1,45 @@
+import { SiteSelectors } from '../types.js';
+import { CheerioRoot, CheerioSelection, SelectorSiteAdapter } from './selectorAdapter.js';
+
+export const POLITEIANET_SELECTORS: SiteSelectors = {
+  bookLinks: '.home-featured-blockImageContainer > a',
+  pagination: '.pagination',
+  nextPage: '.pagination .pagination-next a',
+  bookTitle: '.details-right-column > h1',
+  bookAuthor: '.details-right-column > b > a',
+  recommendations: '.product-reviews-inner',
+  recommendationEntry: ':scope > :not(h4)',
+  recommendationReviewer: 'strong',
+  recommendationDate: '.date',
+  recommendationText: 'p',
+  bookIsbn: '.details-right-column .product-isbn',
+  bookPublisher: '.details-right-column .product-publisher a',
+  bookYear: '.details-right-column .product-year',
+  bookPages: '.details-right-column .product-pages',
+  bookListPrice: '.details-right-column .PricebasePriceWithTax',
+  bookPrice: '.details-right-column .PricesalesPrice',
+  bookAvailability: '.details-right-column .availability',
+  bookCategories: '.breadcrumbs a',
+  bookCover: '.details-left-column img',
+};
+
+// Header shown above the recommendations; books without any show a different one
+const RECOMMENDED_HEADER = 'To βιβλίο';
+
+/**
+ * Adapter for politeianet.gr
+ */
+export class PoliteianetAdapter extends SelectorSiteAdapter {
+  readonly name: string = 'politeianet';
+
+  constructor(baseUrl: string, selectors: SiteSelectors = POLITEIANET_SELECTORS) {
+    super(baseUrl, selectors);
+  }
+
+  protected countRecommendations(_$: CheerioRoot, container: CheerioSelection): number {
+    const header = container.find('h4').first().text().trim();
+    return header.startsWith(RECOMMENDED_HEADER)
+      ? container.children().length - 1
+      : 0;
+  }
+}
@@ -0,0 +1,154 @@
+import cheerio from 'cheerio';
+import { normalizeText } from '../normalize.js';
+import { discoverPagination } from '../pagination.js';
+import { BookDetails, ExtractedBook, ListingPage, ParseError, Recommendation, SiteAdapter, SiteSelectors } from '../types.js';
+import { parseGreekPrice, parseInteger } from '../utils.js';
+
+export type CheerioRoot = ReturnType<typeof cheerio.load>;
+export type CheerioSelection = ReturnType<CheerioRoot>;
+
+/**
+ * Bibliographic fields of a book, all optional on the page
+ */
+type BibliographicDetails = Pick<
+  BookDetails,
+  'isbn' | 'publisher' | 'publicationYear' | 'pageCount' | 'listPrice' | 'price' |
+  'availability' | 'categories' | 'coverImageUrl'
+>;
+
+/**
+ * Base for adapters of sites whose pages can be read with CSS selectors alone
+ * Subclasses supply the selectors and decide how the recommendation count is read
+ */
+export abstract class SelectorSiteAdapter implements SiteAdapter {
+  abstract readonly name: string;
+
+  constructor(
+    protected baseUrl: string,
+    readonly selectors: SiteSelectors
+  ) {}
+
+  get readySelectors(): string[] {
+    return [this.selectors.bookTitle, this.selectors.bookAuthor, this.selectors.recommendations];
+  }
+
+  /**
+   * Counts the recommendations in the page's recommendations container
+   */
+  protected abstract countRecommendations($: CheerioRoot, container: CheerioSelection): number;
+
+  seedUrl(seed: string): string {
+    return new URL(seed, this.baseUrl).toString();
+  }
+
+  resolveUrl(href: string, pageUrl: string): string {
+    return new URL(href, pageUrl).toString();
+  }
+
+  extractListing(html: string, url: string): ListingPage {
+    const $ = cheerio.load(html);
+
+    let links: string[];
+    try {
+      links = $(this.selectors.bookLinks)
+        .toArray()
+        .map(elem => $(elem).attr('href'))
+        .filter((href): href is string => Boolean(href))
+        .map(href => this.resolveUrl(href, url));
+    } catch (error) {
+      throw new ParseError(url, error as Error, { selector: this.selectors.bookLinks });
+    }
+
+    try {
+      return { links, pagination: discoverPagination($, url, this.selectors) };
+    } catch (error) {
+      throw new ParseError(url, error as Error, { selector: this.selectors.pagination });
+    }
+  }
+
+  extractBookDetails(html: string, url: string, withRecommendations: boolean): ExtractedBook {
+    try {
+      const $ = cheerio.load(html);
+      const title = normalizeText($(this.selectors.bookTitle).first().text());
+      const author = normalizeText($(this.selectors.bookAuthor).first().text());
+      const recommendations = $(this.selectors.recommendations).first();
+
+      // Quick validation before full processing
+      if (!title || !author || recommendations.length === 0) {
+        throw new ParseError(url, undefined, { title, author, hasRecommendations: recommendations.length > 0 });
+      }
+
+      return {
+        title,
+        author,
+        // An empty recommendations container is a count of 0, kept so the output covers the whole catalogue
+        recommendationsCount: this.countRecommendations($, recommendations),
+        url,
+        scrapedAt: new Date(),
+        ...this.extractBibliographicDetails($, url),
+        ...(withRecommendations && {
+          recommendations: this.extractRecommendations($, url)
+        })
+      };
+    } catch (error) {
+      if (error instanceof ParseError) {
+        throw error;
+      }
+      throw new ParseError(url, error as Error);
+    }
+  }
+
+  /**
+   * Extracts every recommendation entry with its reviewer, date and text
+   */
+  protected extractRecommendations($: CheerioRoot, url: string): Recommendation[] {
+    const { selectors } = this;
+    return $(selectors.recommendations)
+      .first()
+      .find(selectors.recommendationEntry)
+      .toArray()
+      .map((item, index) => {
+        const entry = $(item);
+        const text = entry.find(selectors.recommendationText).first();
+        return {
+          bookUrl: url,
+          position: index + 1,
+          reviewer: entry.find(selectors.recommendationReviewer).first().text().trim(),
+          date: entry.find(selectors.recommendationDate).first().text().trim(),
+          // Fall back to the whole entry when there is no dedicated text element
+          text: (text.length > 0 ? text : entry).text().replace(/\s+/g, ' ').trim()
+        };
+      });
+  }
+
+  /**
+   * Extracts bibliographic fields
+   * Missing elements yield null rather than failing the book
+   */
+  protected extractBibliographicDetails($: CheerioRoot, url: string): BibliographicDetails {
+    const { selectors } = this;
+    const text = (selector: string) => normalizeText($(selector).first().text()) || null;
+
+    // Matched rather than stripped of non-digits, so the 13 of an "ISBN-13:" label is not taken for part of it
+    const isbn = text(selectors.bookIsbn)?.match(/97[89][-\s]?(?:\d[-\s]?){9}\d|(?:\d[-\s]?){9}[\dX]/i)?.[0]
+      .replace(/[-\s]/g, '').toUpperCase() ?? null;
+    const price = parseGreekPrice(text(selectors.bookPrice));
+    const cover = $(selectors.bookCover).first().attr('src');
+
+    return {
+      isbn,
+      publisher: text(selectors.bookPublisher),
+      publicationYear: Number(text(selectors.bookYear)?.match(/\b(?:1[5-9]|20)\d{2}\b/)?.[0]) || null,
+      pageCount: parseInteger(text(selectors.bookPages)),
+      // Books without a discount only show one price
+      listPrice: parseGreekPrice(text(selectors.bookListPrice)) ?? price,
+      price,
+      availability: text(selectors.bookAvailability),
+      categories: $(selectors.bookCategories)
+        .toArray()
+        .map(el => normalizeText($(el).text()))
+        .filter(Boolean),
+      coverImageUrl: cover ? this.resolveUrl(cover, url) : null
+    };
+  }
+}
@@ -0,0 +1,423 @@
+#!/usr/bin/env node
+import { realpathSync } from 'fs';
+import { constants } from 'os';
+import { pathToFileURL } from 'url';
+import { CONFIG_OPTIONS, getConfig, loadConfig, parseOptionValue, setLayerValue } from './config.js';
+import { createLogger } from './logger.js';
+import { Scraper } from './scraper.js';
+import { collectLinks } from './linkScraper.js';
+import { scrapeCollectedLinks } from './detailsScraper.js';
+import { retryFailed } from './retryFailed.js';
+import { compareRuns } from './compareRuns.js';
+import { checkSelectors, renderHealthReport } from './selectorHealth.js';
+import { collectRunStats, renderRunStats } from './runStats.js';
+import { exportOutput } from './exportOutput.js';
+import { createSiteAdapter } from './adapters/index.js';
+import { createFetchControls, createFetcher } from './services/fetcher.js';
+import { RunControl } from './services/runControl.js';
+import { ConfigError, ConfigLayer, ConfigOption, Logger, OutputFormat, UsageError } from './types.js';
+
+/**
+ * An option that only one command takes
+ */
+interface CommandFlag {
+  name: string;
+  type: 'string' | 'boolean';
+  choices?: readonly string[];
+  placeholder?: string;  // Shown in help for the flag's value
+  description: string;
+}
+
+/**
+ * Positional arguments and command options of one invocation
+ */
+interface CommandArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+interface Command {
+  usage: string;  // Arguments after the command name
+  summary: string;
+  maxPositionals: number;
+  flags: CommandFlag[];
+  run(args: CommandArgs, logger: Logger, print: (text: string) => void): Promise<number>;
+}
+
+/**
+ * Runs a command that can be interrupted, stopping it cleanly on SIGINT or SIGTERM so it can be resumed
+ * The first signal stops new work and gives pages in flight shutdown.graceMs to finish; a second aborts them at once
+ * @param run - Resolves to whether the work was completed
+ * @returns 0 when complete, 128 plus the signal number when a signal cut it short, and 1 otherwise
+ */
+const runUntilSignalled = async (
+  logger: Logger,
+  target: { stop(graceMs?: number): unknown },
+  run: () => Promise<boolean>
+): Promise<number> => {
+  let received: NodeJS.Signals | null = null;
+  const onSignal = (signal: NodeJS.Signals) => {
+    const graceMs = received ? 0 : getConfig().shutdown.graceMs;
+    logger.info(`Received ${signal} signal, stopping`, { graceMs });
+    received = signal;
+    target.stop(graceMs);
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  try {
+    if (await run()) {
+      return 0;
+    }
+    return received ? 128 + constants.signals[received] : 1;
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  }
+};
+
+/**
+ * Runs a full crawl, or resumes one from its checkpoint
+ */
+const crawl = (resume: boolean, logger: Logger): Promise<number> => {
+  const scraper = new Scraper({ resume, logger });
+  return runUntilSignalled(logger, scraper, async () => (await scraper.start()).complete);
+};
+
+const COMMANDS: Record<string, Command> = {
+  crawl: {
+    usage: '',
+    summary: 'Collect links and scrape book details in one run',
+    maxPositionals: 0,
+    flags: [],
+    run: (_args, logger) => crawl(false, logger),
+  },
+  resume: {
+    usage: '',
+    summary: 'Continue an interrupted crawl from its checkpoint',
+    maxPositionals: 0,
+    flags: [],
+    run: (_args, logger) => crawl(true, logger),
+  },
+  links: {
+    usage: '',
+    summary: 'Collect book links only, saving them to the checkpoint file',
+    maxPositionals: 0,
+    flags: [{ name: 'resume', type: 'boolean', description: 'Continue an unfinished link collection' }],
+    run: (args, logger) => {
+      const control = new RunControl();
+      return runUntilSignalled(logger, control, async () =>
+        (await collectLinks(logger, { resume: args.flags.resume === true, control })).isCollectionComplete()
+      );
+    },
+  },
+  details: {
+    usage: '',
+    summary: 'Scrape details for the links saved by the links command',
+    maxPositionals: 0,
+    flags: [],
+    run: (_args, logger) => {
+      const control = new RunControl();
+      return runUntilSignalled(logger, control, async () => !(await scrapeCollectedLinks(logger, control)).hasMore());
+    },
+  },
+  retry: {
+    usage: '',
+    summary: 'Scrape the URLs in the dead-letter file again; exits 1 while any still fail',
+    maxPositionals: 0,
+    flags: [],
+    run: async (_args, logger) => {
+      const { stillFailing } = await retryFailed(logger);
+      return stillFailing > 0 ? 1 : 0;
+    },
+  },
+  export: {
+    usage: '<file>',
+    summary: 'Copy the scraped books to another file, converting the format',
+    maxPositionals: 1,
+    flags: [{
+      name: 'format',
+      type: 'string',
+      choices: ['csv', 'jsonl', 'sqlite'],
+      description: 'Format of the file; inferred from its extension by default'
+    }],
+    run: async (args, logger) => {
+      const [targetFile] = args.positionals;
+      if (!targetFile) {
+        throw new UsageError('export needs the file to write to');
+      }
+      await exportOutput(getConfig(), targetFile, args.flags.format as OutputFormat | undefined, logger);
+      return 0;
+    },
+  },
+  stats: {
+    usage: '',
+    summary: 'Summarize the output, checkpoint and dead-letter files',
+    maxPositionals: 0,
+    flags: [{ name: 'json', type: 'boolean', description: 'Print JSON instead of text' }],
+    run: async (args, logger, print) => {
+      const stats = await collectRunStats(getConfig(), logger);
+      print(args.flags.json === true ? JSON.stringify(stats, null, 2) : renderRunStats(stats));
+      return 0;
+    },
+  },
+  compare: {
+    usage: '<previous> [current] [report base]',
+    summary: 'Report books added, removed and changed since an earlier output',
+    maxPositionals: 3,
+    flags: [{
+      name: 'since',
+      type: 'string',
+      placeholder: 'time',
+      description: 'Start of the current run; books not seen after it count as removed (default: the previous file\'s last sighting)'
+    }],
+    run: async (args, logger) => {
+      const [previousFile, currentFile = getConfig().files.output, reportBase = 'data/changes'] = args.positionals;
+      if (!previousFile) {
+        throw new UsageError('compare needs the previous output file');
+      }
+      const since = typeof args.flags.since === 'string' ? new Date(args.flags.since) : undefined;
+      if (since && Number.isNaN(since.getTime())) {
+        throw new UsageError(`--since needs a date and time such as 2026-10-19T06:00:00Z; got "${args.flags.since}"`);
+      }
+      await compareRuns(previousFile, currentFile, reportBase, logger, since);
+      return 0;
+    },
+  },
+  'check-selectors': {
+    usage: '[book sample size]',
+    summary: 'Check the site adapter\'s selectors against live pages; exits 1 on drift',
+    maxPositionals: 1,
+    flags: [{ name: 'json', type: 'boolean', description: 'Print the report as JSON' }],
+    run: async (args, logger, print) => {
+      const config = getConfig();
+      const sampleSize = Number(args.positionals[0] ?? '5');
+      if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+        throw new UsageError(`check-selectors needs a positive sample size; got "${args.positionals[0]}"`);
+      }
+
+      // 2 tells a check that could not run apart from one that found drift
+      try {
+        const controls = createFetchControls(config, logger);
+        const report = await checkSelectors(
+          createSiteAdapter(config),
+          createFetcher(config.scraping.fetchers.links, config, logger, controls),
+          createFetcher(config.scraping.fetchers.details, config, logger, controls),
+          config.base.seeds,
+          sampleSize,
+          logger
+        );
+        print(args.flags.json === true ? JSON.stringify(report, null, 2) : renderHealthReport(report));
+        return report.healthy ? 0 : 1;
+      } catch (error) {
+        logger.error('Selector health check failed', error as Error);
+        return 2;
+      }
+    },
+  },
+};
+
+const CONFIG_FILE_FLAG: CommandFlag = {
+  name: 'config',
+  type: 'string',
+  placeholder: 'file',
+  description: 'YAML or JSON config file; CONFIG_FILE also sets it'
+};
+
+const PROFILE_FLAG: CommandFlag = {
+  name: 'profile',
+  type: 'string',
+  placeholder: 'name',
+  description: 'Profile from the config file to apply; CONFIG_PROFILE also sets it'
+};
+
+/**
+ * Splits a command line into the command, its arguments, the config file and profile, and config overrides
+ * Flags take --name value or --name=value; boolean flags also take --name and --no-name
+ */
+export const parseCommandLine = (argv: string[]): {
+  command: string | null;
+  help: boolean;
+  args: CommandArgs;
+  configFile: string | null;
+  profile: string | null;
+  overrides: ConfigLayer;
+} => {
+  const command = argv[0] && !argv[0].startsWith('-') ? argv[0] : null;
+  if (command && !COMMANDS[command]) {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  const commandFlags = command ? COMMANDS[command].flags : [];
+  const configOptions = new Map(CONFIG_OPTIONS.map(option => [option.flag, option]));
+  const args: CommandArgs = { positionals: [], flags: {} };
+  const overrides: ConfigLayer = {};
+  let configFile: string | null = null;
+  let profile: string | null = null;
+  let help = false;
+
+  const rest = argv.slice(command ? 1 : 0);
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index];
+    if (arg === '-h' || arg === '--help') {
+      help = true;
+      continue;
+    }
+    if (!arg.startsWith('--')) {
+      args.positionals.push(arg);
+      continue;
+    }
+
+    const [rawName, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    const negated = rawName.startsWith('no-') && inlineValue === undefined;
+    const name = negated ? rawName.slice(3) : rawName;
+    const option = configOptions.get(name);
+    const flag = commandFlags.find(candidate => candidate.name === name) ??
+      [CONFIG_FILE_FLAG, PROFILE_FLAG].find(candidate => candidate.name === name);
+    if (!option && !flag) {
+      throw new UsageError(`Unknown option --${rawName}${command ? ` for ${command}` : ''}`);
+    }
+
+    const isBoolean = (option ?? flag)!.type === 'boolean';
+    if (negated && !isBoolean) {
+      throw new UsageError(`Unknown option --${rawName}`);
+    }
+    let value: string;
+    if (isBoolean) {
+      value = negated ? 'false' : inlineValue ?? 'true';
+    } else if (inlineValue !== undefined) {
+      value = inlineValue;
+    } else if (index + 1 < rest.length && !rest[index + 1].startsWith('--')) {
+      value = rest[++index];
+    } else {
+      throw new UsageError(`--${name} needs a value`);
+    }
+
+    if (option) {
+      setLayerValue(overrides, option.path, parseOptionValue(option, value, `--${name}`));
+    } else if (flag === CONFIG_FILE_FLAG) {
+      configFile = value;
+    } else if (flag === PROFILE_FLAG) {
+      profile = value;
+    } else if (flag!.choices && !flag!.choices.includes(value)) {
+      throw new UsageError(`--${name} must be one of ${flag!.choices.join(', ')}; got "${value}"`);
+    } else if (isBoolean && value !== 'true' && value !== 'false') {
+      throw new UsageError(`--${name} must be true or false; got "${value}"`);
+    } else {
+      args.flags[name] = isBoolean ? value === 'true' : value;
+    }
+  }
+
+  if (command && args.positionals.length > COMMANDS[command].maxPositionals) {
+    throw new UsageError(`Unexpected argument "${args.positionals[COMMANDS[command].maxPositionals]}" for ${command}`);
+  }
+  return { command, help, args, configFile, profile, overrides };
+};
+
+/**
+ * Lines of an aligned two-column listing
+ */
+const renderColumns = (rows: [string, string][]): string[] => {
+  const width = Math.max(...rows.map(([left]) => left.length)) + 2;
+  return rows.map(([left, right]) => `  ${left.padEnd(width)}${right}`);
+};
+
+const describeFlag = (name: string, type: ConfigOption['type'], placeholder?: string): string => {
+  if (type === 'boolean') {
+    return `--${name}, --no-${name}`;
+  }
+  return `--${name} <${placeholder ?? { string: 'value', number: 'n', decimal: 'x', list: 'a,b,...', 'json-file': 'file' }[type]}>`;
+};
+
+const describeChoices = (choices?: readonly string[]): string => (choices ? ` [${choices.join('|')}]` : '');
+
+const describeCommandFlag = (flag: CommandFlag): [string, string] =>
+  [describeFlag(flag.name, flag.type, flag.placeholder), `${flag.description}${describeChoices(flag.choices)}`];
+
+/**
+ * Renders the help text for the whole tool or for one command
+ */
+export const renderHelp = (command: string | null = null): string => {
+  const configRows = CONFIG_OPTIONS.map(option =>
+    [describeFlag(option.flag, option.type), `${option.description}${describeChoices(option.choices)} (${option.env})`] as [string, string]
+  );
+
+  if (command) {
+    const { usage, summary, flags } = COMMANDS[command];
+    return [
+      `Usage: polit ${command}${usage ? ` ${usage}` : ''} [options]`,
+      '',
+      summary,
+      ...(flags.length > 0 ? ['', 'Options:', ...renderColumns(flags.map(describeCommandFlag))] : []),
+      '',
+      'Configuration flags from polit --help apply to every command.',
+    ].join('\n');
+  }
+
+  return [
+    'Usage: polit <command> [options]',
+    '',
+    'Commands:',
+    ...renderColumns(Object.entries(COMMANDS).map(([name, { usage, summary }]) =>
+      [`${name}${usage ? ` ${usage}` : ''}`, summary] as [string, string]
+    )),
+    '',
+    'Options:',
+    ...renderColumns([
+      describeCommandFlag(CONFIG_FILE_FLAG),
+      describeCommandFlag(PROFILE_FLAG),
+      ['-h, --help', 'Show help; after a command, help for that command'],
+    ]),
+    '',
+    'Configuration, in order of precedence: flags, config file profile, config file, environment variables, defaults',
+    ...renderColumns(configRows),
+    '',
+    'Run polit <command> --help for the options of a command.',
+  ].join('\n');
+};
+
+/**
+ * Runs the polit command line
+ * @param output - Where help, reports and usage errors are written
+ * @returns The exit code: 0 on success, 1 when the command failed, 2 for usage and configuration errors,
+ *   and 128 plus the signal number for a crawl a signal stopped before it was complete
+ */
+export const runCli = async (
+  argv: string[],
+  output: { out: (text: string) => void; err: (text: string) => void } = { out: console.log, err: console.error }
+): Promise<number> => {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+    if (parsed.help || !parsed.command) {
+      (parsed.help ? output.out : output.err)(renderHelp(parsed.command));
+      return parsed.help ? 0 : 2;
+    }
+    loadConfig({ file: parsed.configFile, profile: parsed.profile, overrides: parsed.overrides });
+  } catch (error) {
+    if (error instanceof UsageError || error instanceof ConfigError) {
+      output.err(`polit: ${error.message}\nRun polit --help for usage.`);
+      return 2;
+    }
+    throw error;
+  }
+
+  const command = parsed.command;
+  const logger = createLogger(getConfig());
+  try {
+    return await COMMANDS[command].run(parsed.args, logger, output.out);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      output.err(`polit: ${error.message}\nRun polit ${command} --help for usage.`);
+      return 2;
+    }
+    logger.error(`The ${command} command failed`, error as Error);
+    return 1;
+  }
+};
+
+// Run if called directly, including through the installed polit link
+if (process.argv[1] && import.meta.url === pathToFileURL(realpathSync(process.argv[1])).href) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
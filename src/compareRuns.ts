@@ -0,0 +1,158 @@
+import { openOutputFile } from './services/sinks/index.js';
+import { BookDetails, BookSummary, CatalogueChangeReport, Logger, RecommendationChange, StoredBook } from './types.js';
+import { writeFileAtomic } from './utils.js';
+
+/**
+ * Reduces a book to the fields shown in a change report
+ */
+const summarize = (book: BookDetails): BookSummary => ({
+  url: book.url,
+  title: book.title,
+  author: book.author,
+  recommendationsCount: book.recommendationsCount
+});
+
+/**
+ * Compares two sets of books by URL
+ */
+export const compareCatalogues = (
+  previous: { source: string; books: BookDetails[] },
+  current: { source: string; books: BookDetails[]; seenAfter: Date }
+): CatalogueChangeReport => {
+  const previousByUrl = new Map(previous.books.map(book => [book.url, book]));
+  const currentByUrl = new Map(current.books.map(book => [book.url, book]));
+
+  const added = current.books
+    .filter(book => !previousByUrl.has(book.url))
+    .map(summarize);
+
+  const removed = previous.books
+    .filter(book => !currentByUrl.has(book.url))
+    .map(summarize);
+
+  const recommendationChanges: RecommendationChange[] = [];
+  for (const book of current.books) {
+    const before = previousByUrl.get(book.url);
+    if (before && before.recommendationsCount !== book.recommendationsCount) {
+      recommendationChanges.push({
+        url: book.url,
+        title: book.title,
+        author: book.author,
+        previousCount: before.recommendationsCount,
+        currentCount: book.recommendationsCount,
+        delta: book.recommendationsCount - before.recommendationsCount
+      });
+    }
+  }
+  recommendationChanges.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return {
+    generatedAt: new Date(),
+    previous: { source: previous.source, bookCount: previousByUrl.size },
+    current: { source: current.source, bookCount: currentByUrl.size, seenAfter: current.seenAfter },
+    added,
+    removed,
+    recommendationChanges
+  };
+};
+
+/**
+ * Escapes text for use inside a Markdown table cell
+ */
+const cell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+
+/**
+ * Renders a change report as a human-readable Markdown summary
+ */
+export const renderMarkdownReport = (report: CatalogueChangeReport): string => {
+  const increased = report.recommendationChanges.filter(change => change.delta > 0).length;
+  const decreased = report.recommendationChanges.length - increased;
+
+  const lines = [
+    '# Catalogue changes',
+    '',
+    `Generated ${report.generatedAt.toISOString()}`,
+    '',
+    `- Previous: \`${report.previous.source}\` (${report.previous.bookCount} books)`,
+    `- Current: \`${report.current.source}\` (${report.current.bookCount} books seen after ${report.current.seenAfter.toISOString()})`,
+    `- New books: ${report.added.length}`,
+    `- Removed books: ${report.removed.length}`,
+    `- Recommendation counts changed: ${report.recommendationChanges.length} (${increased} up, ${decreased} down)`,
+  ];
+
+  const bookTable = (title: string, books: BookSummary[]) => {
+    if (books.length === 0) {
+      return;
+    }
+    lines.push('', `## ${title}`, '', '| Title | Author | Recommendations |', '| --- | --- | ---: |');
+    for (const book of books) {
+      lines.push(`| [${cell(book.title)}](${book.url}) | ${cell(book.author)} | ${book.recommendationsCount} |`);
+    }
+  };
+
+  bookTable('New books', report.added);
+  bookTable('Removed books', report.removed);
+
+  if (report.recommendationChanges.length > 0) {
+    lines.push(
+      '', '## Recommendation changes', '',
+      '| Title | Author | Previous | Current | Change |',
+      '| --- | --- | ---: | ---: | ---: |'
+    );
+    for (const change of report.recommendationChanges) {
+      const delta = change.delta > 0 ? `+${change.delta}` : String(change.delta);
+      lines.push(
+        `| [${cell(change.title)}](${change.url}) | ${cell(change.author)} | ` +
+        `${change.previousCount} | ${change.currentCount} | ${delta} |`
+      );
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * When the most recently seen book of an output was last seen
+ */
+const latestSighting = (books: StoredBook[]): Date =>
+  new Date(books.reduce((latest, book) => Math.max(latest, book.lastSeenAt.getTime()), 0));
+
+/**
+ * Compares two output files and writes the report as `<reportBase>.json` and `<reportBase>.md`
+ * The output keeps every book it has seen, so the current file only counts books seen after `seenAfter`,
+ * by default the last sighting in the previous file; books of the previous file not seen since are reported removed
+ * @param seenAfter - Start of the run that wrote the current file
+ */
+export const compareRuns = async (
+  previousFile: string,
+  currentFile: string,
+  reportBase: string,
+  logger: Logger,
+  seenAfter?: Date
+): Promise<CatalogueChangeReport> => {
+  const [previousBooks, currentBooks] = await Promise.all([
+    openOutputFile(previousFile, logger).readAll(),
+    openOutputFile(currentFile, logger).readAll()
+  ]);
+
+  const since = seenAfter ?? latestSighting(previousBooks);
+  const report = compareCatalogues(
+    { source: previousFile, books: previousBooks },
+    { source: currentFile, books: currentBooks.filter(book => book.lastSeenAt > since), seenAfter: since }
+  );
+
+  await Promise.all([
+    writeFileAtomic(`${reportBase}.json`, JSON.stringify(report, null, 2) + '\n'),
+    writeFileAtomic(`${reportBase}.md`, renderMarkdownReport(report))
+  ]);
+
+  logger.info('Change report written', {
+    json: `${reportBase}.json`,
+    markdown: `${reportBase}.md`,
+    added: report.added.length,
+    removed: report.removed.length,
+    recommendationChanges: report.recommendationChanges.length
+  });
+
+  return report;
+};
@@ -1,102 +1,497 @@
-import { ScraperConfig } from './types.js';
+import { ConfigError, ConfigLayer, ConfigOption, ScraperConfig, SiteSelectors } from './types.js';
+import { inferOutputFormat } from './utils.js';
 import { z } from 'zod';
 import * as dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import YAML from 'yaml';
 
 // Load environment variables
 dotenv.config();
 
-/**
- * Environment variables schema
- */
-const envSchema = z.object({
-  BASE_URL: z.string().url(),
-  BOOK_LIST_PATH: z.string(),
-  HEADLESS: z.enum(['true', 'false']).default('true'),
-  TIMEOUT: z.string().regex(/^\d+$/).transform(Number).default('30000'),
-  MAX_CONCURRENT: z.string().regex(/^\d+$/).transform(Number).default('5'),
-  RATE_LIMIT: z.string().regex(/^\d+$/).transform(Number).default('60'),
-  MAX_RETRIES: z.string().regex(/^\d+$/).transform(Number).default('3'),
-  DEBUG: z.enum(['true', 'false']).default('false'),
-  OUTPUT_FILE: z.string().default('data/anthology.csv'),
-});
+// Selectors a config file may replace; every site adapter's selectors have these names
+const SELECTOR_NAMES = [
+  'bookLinks', 'pagination', 'nextPage', 'bookTitle', 'bookAuthor', 'recommendations', 'recommendationEntry',
+  'recommendationReviewer', 'recommendationDate', 'recommendationText', 'bookIsbn', 'bookPublisher', 'bookYear',
+  'bookPages', 'bookListPrice', 'bookPrice', 'bookAvailability', 'bookCategories', 'bookCover',
+] as const satisfies readonly (keyof SiteSelectors)[];
 
 /**
- * Parse and validate environment variables
+ * Every configurable field, with the environment variable and flag that set it
  */
-const env = envSchema.parse({
-  BASE_URL: process.env.BASE_URL || 'https://www.politeianet.gr',
-  BOOK_LIST_PATH: process.env.BOOK_LIST_PATH || '/sygrafeas/anthologia-1466',
-  HEADLESS: process.env.HEADLESS,
-  TIMEOUT: process.env.TIMEOUT,
-  MAX_CONCURRENT: process.env.MAX_CONCURRENT,
-  RATE_LIMIT: process.env.RATE_LIMIT,
-  MAX_RETRIES: process.env.MAX_RETRIES,
-  DEBUG: process.env.DEBUG,
-  OUTPUT_FILE: process.env.OUTPUT_FILE,
-});
+export const CONFIG_OPTIONS: readonly ConfigOption[] = [
+  { path: 'base.url', flag: 'base-url', env: 'BASE_URL', type: 'string', description: 'Site root URL' },
+  { path: 'base.site', flag: 'site', env: 'SITE', type: 'string', description: 'Site adapter name' },
+  { path: 'base.seeds', flag: 'seeds', env: 'SEEDS', type: 'list', description: 'Comma-separated listing paths to crawl' },
+  { path: 'scraping.headless', flag: 'headless', env: 'HEADLESS', type: 'boolean', description: 'Run the browser headless' },
+  { path: 'scraping.timeout', flag: 'timeout', env: 'TIMEOUT', type: 'number', description: 'Page load timeout in ms' },
+  { path: 'scraping.maxConcurrent', flag: 'max-concurrent', env: 'MAX_CONCURRENT', type: 'number', description: 'Book pages scraped at once' },
+  { path: 'scraping.rateLimitPerMinute', flag: 'rate-limit', env: 'RATE_LIMIT', type: 'number', description: 'Requests per minute' },
+  { path: 'scraping.maxRetries', flag: 'max-retries', env: 'MAX_RETRIES', type: 'number', description: 'Requests per fetch before the fetch backend gives up' },
+  {
+    path: 'scraping.waitUntil', flag: 'wait-until', env: 'WAIT_UNTIL', type: 'string',
+    choices: ['load', 'domcontentloaded', 'networkidle0', 'networkidle2'],
+    description: 'When a browser navigation counts as finished'
+  },
+  {
+    path: 'scraping.extractRecommendations', flag: 'extract-recommendations', env: 'EXTRACT_RECOMMENDATIONS',
+    type: 'boolean', description: 'Extract each recommendation, not just the count'
+  },
+  {
+    path: 'scraping.fetchers.links', flag: 'links-fetcher', env: 'LINKS_FETCHER', type: 'string',
+    choices: ['http', 'browser'], description: 'Backend for listing pages'
+  },
+  {
+    path: 'scraping.fetchers.details', flag: 'details-fetcher', env: 'DETAILS_FETCHER', type: 'string',
+    choices: ['http', 'browser'], description: 'Backend for book pages'
+  },
+  {
+    path: 'scraping.archive.mode', flag: 'archive-mode', env: 'ARCHIVE_MODE', type: 'string',
+    choices: ['off', 'record', 'replay'], description: 'Record fetched pages, or replay recorded ones'
+  },
+  { path: 'scraping.archive.directory', flag: 'archive-dir', env: 'ARCHIVE_DIR', type: 'string', description: 'Directory of recorded pages' },
+  {
+    path: 'scraping.robots.userAgent', flag: 'robots-user-agent', env: 'ROBOTS_USER_AGENT', type: 'string',
+    description: 'Product token matched against robots.txt'
+  },
+  {
+    path: 'scraping.robots.ignoreCrawlDelay', flag: 'ignore-crawl-delay', env: 'IGNORE_CRAWL_DELAY', type: 'boolean',
+    description: 'Ignore robots.txt Crawl-delay'
+  },
+  { path: 'scraping.rotation.proxies', flag: 'proxies', env: 'PROXIES', type: 'list', description: 'Comma-separated proxy URLs' },
+  {
+    path: 'scraping.rotation.maxProxyFailures', flag: 'proxy-max-failures', env: 'PROXY_MAX_FAILURES', type: 'number',
+    description: 'Consecutive failures before a proxy is retired'
+  },
+  {
+    path: 'scraping.rotation.identities', flag: 'identities-file', env: 'IDENTITIES_FILE', type: 'json-file',
+    description: 'JSON file of browser identities'
+  },
+  {
+    path: 'scraping.rotation.rotateEvery', flag: 'rotate-every', env: 'ROTATE_EVERY', type: 'number',
+    description: 'Requests per browser context before rotating; 0 never rotates'
+  },
+  { path: 'files.output', flag: 'output', env: 'OUTPUT_FILE', type: 'string', description: 'Output file' },
+  {
+    path: 'files.outputFormat', flag: 'output-format', env: 'OUTPUT_FORMAT', type: 'string',
+    choices: ['csv', 'jsonl', 'sqlite'], description: 'Output format; inferred from the output extension by default'
+  },
+  { path: 'files.checkpoint', flag: 'checkpoint-file', env: 'CHECKPOINT_FILE', type: 'string', description: 'Crawl checkpoint file' },
+  { path: 'files.deadLetter', flag: 'dead-letter-file', env: 'DEAD_LETTER_FILE', type: 'string', description: 'Failed URL file' },
+  {
+    path: 'files.recommendations', flag: 'recommendations-file', env: 'RECOMMENDATIONS_FILE', type: 'string',
+    description: 'Recommendations CSV, for CSV output'
+  },
+  {
+    path: 'checkpoint.intervalMs', flag: 'checkpoint-interval', env: 'CHECKPOINT_INTERVAL', type: 'number',
+    description: 'Checkpoint interval in ms'
+  },
+  {
+    path: 'shutdown.graceMs', flag: 'shutdown-grace', env: 'SHUTDOWN_GRACE', type: 'number',
+    description: 'Time pages in flight get to finish after a stop, in ms, before they are aborted'
+  },
+  {
+    path: 'filters.minRecommendations', flag: 'min-recommendations', env: 'MIN_RECOMMENDATIONS', type: 'number',
+    description: 'Save only books with at least this many recommendations'
+  },
+  {
+    path: 'filters.authors.include', flag: 'include-authors', env: 'INCLUDE_AUTHORS', type: 'list',
+    description: 'Comma-separated authors to save; all when empty'
+  },
+  {
+    path: 'filters.authors.exclude', flag: 'exclude-authors', env: 'EXCLUDE_AUTHORS', type: 'list',
+    description: 'Comma-separated authors not to save'
+  },
+  {
+    path: 'filters.titlePattern', flag: 'title-pattern', env: 'TITLE_PATTERN', type: 'string',
+    description: 'Save only books whose title matches this regular expression'
+  },
+  {
+    path: 'filters.categories.include', flag: 'include-categories', env: 'INCLUDE_CATEGORIES', type: 'list',
+    description: 'Comma-separated categories, one of which a saved book must be in'
+  },
+  {
+    path: 'filters.categories.exclude', flag: 'exclude-categories', env: 'EXCLUDE_CATEGORIES', type: 'list',
+    description: 'Comma-separated categories not to save'
+  },
+  { path: 'filters.price.min', flag: 'min-price', env: 'MIN_PRICE', type: 'decimal', description: 'Lowest price to save, in euros' },
+  { path: 'filters.price.max', flag: 'max-price', env: 'MAX_PRICE', type: 'decimal', description: 'Highest price to save, in euros' },
+  { path: 'metrics.port', flag: 'metrics-port', env: 'METRICS_PORT', type: 'number', description: 'Serve /metrics and /healthz on this port' },
+  { path: 'metrics.host', flag: 'metrics-host', env: 'METRICS_HOST', type: 'string', description: 'Interface of the metrics endpoint' },
+  {
+    path: 'metrics.stallTimeoutMs', flag: 'stall-timeout', env: 'STALL_TIMEOUT', type: 'number',
+    description: 'Time without progress before a phase counts as stalled, in ms'
+  },
+  {
+    path: 'retry.maxAttempts', flag: 'retry-attempts', env: 'RETRY_ATTEMPTS', type: 'number',
+    description: 'Attempts per listing or book page, each running a fetch with its own retries'
+  },
+  { path: 'retry.delayMs', flag: 'retry-delay', env: 'RETRY_DELAY', type: 'number', description: 'Wait before the first retry, in ms' },
+  {
+    path: 'retry.backoffFactor', flag: 'retry-backoff', env: 'RETRY_BACKOFF', type: 'decimal',
+    description: 'Multiplier for the wait after each retry'
+  },
+  { path: 'retry.maxDelayMs', flag: 'retry-max-delay', env: 'RETRY_MAX_DELAY', type: 'number', description: 'Longest wait between retries, in ms' },
+  {
+    path: 'logging.level', flag: 'log-level', env: 'LOG_LEVEL', type: 'string',
+    choices: ['debug', 'info', 'warn', 'error'], description: 'Minimum log level'
+  },
+  { path: 'logging.file', flag: 'log-file', env: 'LOG_FILE', type: 'string', description: 'JSON-lines log file' },
+  { path: 'logging.maxFileBytes', flag: 'log-max-bytes', env: 'LOG_MAX_BYTES', type: 'number', description: 'Log file size before rotation' },
+  { path: 'logging.maxFiles', flag: 'log-max-files', env: 'LOG_MAX_FILES', type: 'number', description: 'Rotated log files kept' },
+];
 
 /**
- * Configuration object with validated values
+ * Values used for fields no environment variable, config file or flag sets
+ * The output format is left out; it is inferred from the output file when unset
  */
-export const config: ScraperConfig = {
+const DEFAULTS: ConfigLayer = {
   base: {
-    url: env.BASE_URL,
-    bookListPath: env.BOOK_LIST_PATH,
+    url: 'https://www.politeianet.gr',
+    site: 'politeianet',
+    seeds: ['/sygrafeas/anthologia-1466'],
   },
   scraping: {
-    headless: env.HEADLESS === 'true',
-    timeout: env.TIMEOUT,
-    maxConcurrent: env.MAX_CONCURRENT,
-    rateLimitPerMinute: env.RATE_LIMIT,
-    maxRetries: env.MAX_RETRIES,
-    waitUntil: 'networkidle0',
-  },
-  selectors: {
-    bookLinks: '.home-featured-blockImageContainer > a',
-    nextPage: '.pagination li:nth-child(8) > a',
-    bookTitle: '.details-right-column > h1',
-    bookAuthor: '.details-right-column > b > a',
-    recommendations: '.product-reviews-inner',
+    headless: true,
+    timeout: 30000,
+    maxConcurrent: 5,
+    rateLimitPerMinute: 60,
+    maxRetries: 3,
+    waitUntil: 'domcontentloaded',
+    extractRecommendations: false,
+    fetchers: { links: 'http', details: 'browser' },
+    archive: { mode: 'off', directory: 'data/archive' },
+    robots: { userAgent: 'polit', ignoreCrawlDelay: false },
+    rotation: { proxies: [], maxProxyFailures: 3, identities: [], rotateEvery: 0 },
   },
   files: {
-    output: env.OUTPUT_FILE,
+    output: 'data/anthology.csv',
+    checkpoint: 'data/checkpoint.json',
+    deadLetter: 'data/dead-letter.jsonl',
+    recommendations: 'data/recommendations.csv',
+  },
+  checkpoint: {
+    intervalMs: 30000,
+  },
+  shutdown: {
+    graceMs: 10000,
   },
-} as const;
+  filters: {
+    minRecommendations: 0,
+    authors: { include: [], exclude: [] },
+    titlePattern: null,
+    categories: { include: [], exclude: [] },
+    price: { min: null, max: null },
+  },
+  metrics: {
+    port: null,
+    host: '127.0.0.1',
+    stallTimeoutMs: 300000,
+  },
+  retry: {
+    maxAttempts: 3,
+    delayMs: 500,
+    backoffFactor: 1.5,
+    maxDelayMs: 30000,
+  },
+  selectors: {},
+  logging: {
+    level: 'info',
+    file: null,
+    maxFileBytes: 10485760,
+    maxFiles: 5,
+  },
+};
+
+/**
+ * Converts the text of an environment variable or flag to the option's type
+ * @param source - How the value was given, e.g. --max-concurrent or MAX_CONCURRENT, for error messages
+ */
+export const parseOptionValue = (option: ConfigOption, raw: string, source: string): unknown => {
+  if (option.choices && !option.choices.includes(raw)) {
+    throw new ConfigError(`${source} must be one of ${option.choices.join(', ')}; got "${raw}"`, source);
+  }
+
+  switch (option.type) {
+    case 'string':
+      return raw;
+    case 'number':
+      if (!/^\d+$/.test(raw)) {
+        throw new ConfigError(`${source} must be a whole number; got "${raw}"`, source);
+      }
+      return Number(raw);
+    case 'decimal':
+      if (!/^\d+(\.\d+)?$/.test(raw)) {
+        throw new ConfigError(`${source} must be a number; got "${raw}"`, source);
+      }
+      return Number(raw);
+    case 'boolean':
+      if (raw !== 'true' && raw !== 'false') {
+        throw new ConfigError(`${source} must be true or false; got "${raw}"`, source);
+      }
+      return raw === 'true';
+    case 'list':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'json-file':
+      try {
+        return JSON.parse(readFileSync(raw, 'utf-8'));
+      } catch (error) {
+        throw new ConfigError(`${source} could not be read as JSON from ${raw}: ${(error as Error).message}`, source);
+      }
+  }
+};
+
+/**
+ * Sets a dotted path in a layer, creating the sections on the way
+ */
+export const setLayerValue = (layer: ConfigLayer, path: string, value: unknown): void => {
+  const keys = path.split('.');
+  let section = layer as Record<string, unknown>;
+  for (const key of keys.slice(0, -1)) {
+    section = (section[key] ??= {}) as Record<string, unknown>;
+  }
+  section[keys[keys.length - 1]] = value;
+};
+
+/**
+ * Reads the configuration set by environment variables
+ * Unset and empty variables are left out so lower layers apply
+ */
+export const readEnvLayer = (env: NodeJS.ProcessEnv = process.env): ConfigLayer => {
+  const layer: ConfigLayer = {};
+  for (const option of CONFIG_OPTIONS) {
+    const raw = env[option.env];
+    if (raw) {
+      setLayerValue(layer, option.path, parseOptionValue(option, raw, option.env));
+    }
+  }
+
+  // BOOK_LIST_PATH is the single-seed fallback for SEEDS, and DEBUG=true a shorthand for LOG_LEVEL=debug
+  if (!env.SEEDS && env.BOOK_LIST_PATH) {
+    setLayerValue(layer, 'base.seeds', [env.BOOK_LIST_PATH]);
+  }
+  if (!env.LOG_LEVEL && env.DEBUG === 'true') {
+    setLayerValue(layer, 'logging.level', 'debug');
+  }
+  return layer;
+};
+
+/**
+ * Merges layers from lowest to highest precedence; arrays are replaced, not concatenated
+ * The result is a fresh copy, so changing it never reaches the layers, DEFAULTS included
+ */
+const mergeLayers = (...layers: ConfigLayer[]): ConfigLayer => {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+  const merge = (target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> => {
+    for (const [key, value] of Object.entries(source)) {
+      const current = target[key];
+      target[key] = isObject(value)
+        ? merge(isObject(current) ? { ...current } : {}, value)
+        : Array.isArray(value) ? [...value] : value;
+    }
+    return target;
+  };
+  return layers.reduce<Record<string, unknown>>((merged, layer) => merge(merged, layer as Record<string, unknown>), {}) as ConfigLayer;
+};
+
+/**
+ * Checks that a filter pattern compiles
+ */
+const isRegExp = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
 
 /**
  * Validate entire configuration
+ * Objects are strict so a misspelt key is reported instead of silently ignored
  */
 const configSchema = z.object({
   base: z.object({
     url: z.string().url(),
-    bookListPath: z.string(),
-  }),
+    site: z.string().min(1),
+    seeds: z.array(z.string()).min(1),
+  }).strict(),
   scraping: z.object({
     headless: z.boolean(),
     timeout: z.number().min(0),
     maxConcurrent: z.number().min(1),
     rateLimitPerMinute: z.number().min(1),
     maxRetries: z.number().min(1),
-    waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']).optional(),
-  }),
-  selectors: z.object({
-    bookLinks: z.string(),
-    nextPage: z.string(),
-    bookTitle: z.string(),
-    bookAuthor: z.string(),
-    recommendations: z.string(),
-  }),
+    waitUntil: z.enum(['load', 'domcontentloaded', 'networkidle0', 'networkidle2']),
+    extractRecommendations: z.boolean(),
+    fetchers: z.object({
+      links: z.enum(['http', 'browser']),
+      details: z.enum(['http', 'browser']),
+    }).strict(),
+    archive: z.object({
+      mode: z.enum(['off', 'record', 'replay']),
+      directory: z.string(),
+    }).strict(),
+    robots: z.object({
+      userAgent: z.string().min(1),
+      ignoreCrawlDelay: z.boolean(),
+    }).strict(),
+    rotation: z.object({
+      proxies: z.array(
+        z.string().url().refine(
+          proxy => /^(https?|socks[45]):$/.test(new URL(proxy).protocol),
+          'Proxies must be http, https, socks4 or socks5 URLs'
+        )
+      ),
+      maxProxyFailures: z.number().min(1),
+      identities: z.array(z.object({
+        userAgent: z.string().min(1),
+        viewport: z.object({ width: z.number().int().min(1), height: z.number().int().min(1) }).strict(),
+        acceptLanguage: z.string().min(1),
+      }).strict()),
+      rotateEvery: z.number().min(0),
+    }).strict(),
+  }).strict(),
   files: z.object({
     output: z.string(),
-  }),
+    outputFormat: z.enum(['csv', 'jsonl', 'sqlite']),
+    checkpoint: z.string(),
+    deadLetter: z.string(),
+    recommendations: z.string(),
+  }).strict(),
+  checkpoint: z.object({
+    intervalMs: z.number().min(1000),
+  }).strict(),
+  shutdown: z.object({
+    graceMs: z.number().int().min(0),
+  }).strict(),
+  filters: z.object({
+    minRecommendations: z.number().int().min(0),
+    authors: z.object({ include: z.array(z.string().min(1)), exclude: z.array(z.string().min(1)) }).strict(),
+    titlePattern: z.string().refine(isRegExp, 'Invalid regular expression').nullable(),
+    categories: z.object({ include: z.array(z.string().min(1)), exclude: z.array(z.string().min(1)) }).strict(),
+    price: z.object({ min: z.number().min(0).nullable(), max: z.number().min(0).nullable() }).strict(),
+  }).strict(),
+  metrics: z.object({
+    port: z.number().int().min(0).max(65535).nullable(),
+    host: z.string().min(1),
+    stallTimeoutMs: z.number().min(1000),
+  }).strict(),
+  retry: z.object({
+    maxAttempts: z.number().int().min(1),
+    delayMs: z.number().min(0),
+    backoffFactor: z.number().min(1),
+    maxDelayMs: z.number().min(0),
+  }).strict(),
+  selectors: z.record(z.enum(SELECTOR_NAMES), z.string().min(1)),
+  logging: z.object({
+    level: z.enum(['debug', 'info', 'warn', 'error']),
+    file: z.string().nullable(),
+    maxFileBytes: z.number().min(1024),
+    maxFiles: z.number().min(1),
+  }).strict(),
+}).strict();
+
+/**
+ * A config file: any part of the configuration, plus named profiles that each override part of it
+ */
+const configFileSchema = configSchema.deepPartial().extend({
+  profiles: z.record(configSchema.deepPartial()).optional(),
 });
 
-// Validate configuration
-configSchema.parse(config);
+/**
+ * Names the key a validation issue is about, including the misspelt key itself for unknown keys
+ */
+const describeIssue = (issue: z.ZodIssue, prefix = ''): { key: string; message: string } => {
+  const path = issue.code === 'unrecognized_keys' ? [...issue.path, issue.keys[0]] : issue.path;
+  const key = `${prefix}${path.join('.')}` || '(root)';
+  const message = issue.code === 'unrecognized_keys' ? 'Unknown key' : issue.message;
+  return { key, message };
+};
+
+/**
+ * Reads a YAML or JSON config file and returns its settings with the chosen profile applied
+ * Every profile is validated, not just the chosen one, so a mistake surfaces before the run that needs it
+ * @param profile - Name of an entry under profiles; null uses the top-level settings alone
+ */
+export const readConfigFile = (filePath: string, profile: string | null = null): ConfigLayer => {
+  let content: string;
+  try {
+    content = readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(`Config file ${filePath} could not be read: ${(error as Error).message}`, filePath);
+  }
+
+  let raw: unknown;
+  try {
+    // JSON is valid YAML, but JSON files get JSON's error messages
+    raw = /\.ya?ml$/i.test(filePath) ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`Config file ${filePath} could not be parsed: ${(error as Error).message}`, filePath);
+  }
+
+  const result = configFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const { key, message } = describeIssue(result.error.issues[0]);
+    throw new ConfigError(`Invalid config file ${filePath} at ${key}: ${message}`, key);
+  }
+
+  const { profiles = {}, ...base } = result.data;
+  if (profile === null) {
+    return base as ConfigLayer;
+  }
+  if (!profiles[profile]) {
+    const known = Object.keys(profiles);
+    throw new ConfigError(
+      `Profile "${profile}" is not defined in ${filePath}; ` +
+        (known.length > 0 ? `defined profiles: ${known.join(', ')}` : 'it has no profiles'),
+      `profiles.${profile}`
+    );
+  }
+  return mergeLayers(base as ConfigLayer, profiles[profile] as ConfigLayer);
+};
+
+let current: ScraperConfig | null = null;
+
+/**
+ * Builds the configuration from defaults, environment, config file, profile and flags, in rising precedence
+ * The result becomes what getConfig returns for the rest of the process
+ * @param options.file - YAML or JSON config file; CONFIG_FILE is used when not given
+ * @param options.profile - Profile from the config file; CONFIG_PROFILE is used when not given
+ * @param options.overrides - Values from command-line flags
+ */
+export const loadConfig = (
+  options: { file?: string | null; profile?: string | null; overrides?: ConfigLayer } = {}
+): ScraperConfig => {
+  const file = options.file ?? (process.env.CONFIG_FILE || null);
+  const profile = options.profile ?? (process.env.CONFIG_PROFILE || null);
+  if (profile && !file) {
+    throw new ConfigError(`Profile "${profile}" needs a config file to read it from`, 'profile');
+  }
+
+  const merged = mergeLayers(
+    DEFAULTS,
+    readEnvLayer(),
+    file ? readConfigFile(file, profile) : {},
+    options.overrides ?? {}
+  );
+  const files = merged.files!;
+  files.outputFormat ??= inferOutputFormat(files.output!);
+
+  const result = configSchema.safeParse(merged);
+  if (!result.success) {
+    const { key, message } = describeIssue(result.error.issues[0]);
+    throw new ConfigError(`Invalid configuration at ${key}: ${message}`, key);
+  }
+
+  current = result.data;
+  return current;
+};
 
 /**
  * Get configuration for the current environment
+ * Loaded from the defaults and environment on first use unless loadConfig ran before
  */
 export const getConfig = (): ScraperConfig => {
-  return config;
+  return current ?? loadConfig();
 };
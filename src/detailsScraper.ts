@@ -1,147 +1,130 @@
-import cheerio from 'cheerio';
 import { getConfig } from './config.js';
-import { retry } from './utils.js';
-import { BookDetails, NetworkError, ParseError, RetryConfig, ScrapingErrorRecord, Logger, ScraperConfig } from './types.js';
+import { retry, createErrorRecord } from './utils.js';
+import { describeNames } from './normalize.js';
+import { EventEmitter } from 'events';
+import { BookDetails, BookSkippedEvent, DisallowedByRobotsError, NetworkError, RetryConfig, RobotsUnavailableError, ScrapingError, ScrapingErrorRecord, Logger, ScraperConfig, ScraperEventMap, PageFetcher, SiteAdapter } from './types.js';
 import { LinkQueue } from './services/linkQueue.js';
-import { ConsoleLogger } from './logger.js';
-import { BrowserService } from './services/browser.js';
+import { createFetcher } from './services/fetcher.js';
 import { StorageService } from './services/storage.js';
-import { Page } from 'puppeteer';
-
-/**
- * Extracts book details from a page
- */
-/**
- * Extracts book details with optimized selector handling and parallel evaluation
- */
-const extractBookDetails = async (
-  page: Page,
-  url: string,
-  selectors: ScraperConfig['selectors']
-): Promise<BookDetails | null> => {
-  try {
-    // Evaluate all selectors in parallel for better performance
-    const [title, author, recommendationsData] = await Promise.all([
-      page.$eval(selectors.bookTitle, el => el.textContent?.trim() || ''),
-      page.$eval(selectors.bookAuthor, el => el.textContent?.trim() || ''),
-      page.$eval(selectors.recommendations, el => ({
-        header: el.querySelector('h4')?.textContent?.trim() || '',
-        count: el.children.length - 1
-      }))
-    ]);
-
-    // Quick validation before full processing
-    if (!title || !author) {
-      throw new ParseError(url, undefined, { title, author });
-    }
-
-    const recommendationsCount = recommendationsData.header.startsWith('To βιβλίο') 
-      ? recommendationsData.count 
-      : 0;
-
-    // Skip processing if recommendations are zero
-    if (recommendationsCount === 0) {
-      return null;
-    }
-
-    return {
-      title,
-      author,
-      recommendationsCount,
-      url,
-      scrapedAt: new Date()
-    };
-  } catch (error) {
-    if (error instanceof ParseError) {
-      throw error;
-    }
-    throw new ParseError(url, error as Error);
-  }
-};
+import { createOutputSink } from './services/sinks/index.js';
+import { DeadLetterStore } from './services/deadLetter.js';
+import { CheckpointService } from './services/checkpoint.js';
+import { createSiteAdapter } from './adapters/index.js';
+import { MetricsFetcher, MetricsServer, ScraperMetrics } from './services/metrics.js';
+import { RunControl } from './services/runControl.js';
+import { RecordFilter } from './services/recordFilter.js';
 
 import pLimit from 'p-limit';
 
 /**
- * Processes a single link with error handling and retries
- */
-/**
- * Processes a single link with optimized waiting and error handling
+ * Fetches one book page and extracts its details, retrying the whole page under the configured retry policy
  */
 const processLink = async (
   url: string,
-  browserService: BrowserService,
-  config: ScraperConfig
-): Promise<BookDetails | null> => {
+  seed: string | null,
+  adapter: SiteAdapter,
+  fetcher: PageFetcher,
+  config: ScraperConfig,
+  logger: Logger,
+  metrics: ScraperMetrics,
+  signal?: AbortSignal
+): Promise<BookDetails> => {
   const retryConfig: RetryConfig = {
-    maxAttempts: 3,
-    delayMs: 500, // Further reduced delay
-    backoffFactor: 1.5, // Reduced backoff
-    timeout: config.scraping.timeout
+    maxAttempts: config.retry.maxAttempts,
+    delayMs: config.retry.delayMs,
+    backoffFactor: config.retry.backoffFactor,
+    maxDelay: config.retry.maxDelayMs,
+    timeout: config.scraping.timeout,
+    onRetry: error => metrics.retries.inc({ error: error.name })
   };
 
   return await retry(
     async () => {
-      return await browserService.executeOperation(async (page: Page) => {
-        // Wait for all critical elements in parallel with reduced timeout
-        await Promise.all([
-          page.waitForSelector(config.selectors.bookTitle, { timeout: 3000 }),
-          page.waitForSelector(config.selectors.bookAuthor, { timeout: 3000 }),
-          page.waitForSelector(config.selectors.recommendations, { timeout: 3000 })
-        ]).catch(() => {
-          // If selectors don't appear, page might still be usable
-          // Let extractBookDetails handle any missing elements
-        });
-        
-        return await extractBookDetails(page, url, config.selectors);
-      }, url);
+      let html: string;
+      try {
+        const page = await fetcher.fetch(url, { waitForSelectors: adapter.readySelectors, signal });
+        html = page.body;
+      } catch (error) {
+        throw error instanceof ScrapingError ? error : new NetworkError(url, error as Error);
+      }
+
+      const details = adapter.extractBookDetails(html, url, config.scraping.extractRecommendations);
+      return { ...details, ...describeNames(details), seed };
     },
     retryConfig,
-    url
+    url,
+    logger,
+    signal
   );
 };
 
 /**
- * Processes links concurrently with adaptive batching and error recovery
+ * Optional collaborators of the details phase
  */
+export interface DetailsPhaseOptions {
+  deadLetterStore?: DeadLetterStore;  // Records books that fail every retry; the configured dead-letter file by default
+  metrics?: ScraperMetrics;  // Receives book outcomes, retry counts and the phase's progress
+  events?: EventEmitter<ScraperEventMap> | null;  // Receives each book's outcome as its batch is saved, and progress after each batch
+  control?: RunControl;  // Pauses or stops the phase between batches, or cancels the batch in flight
+}
+
 /**
- * Processes a batch of links with adaptive concurrency and optimized error handling
+ * Everything a batch of the details phase works with
  */
-const processBatch = async (
-  links: string[],
-  browserService: BrowserService,
-  storageService: StorageService,
-  logger: Logger,
-  linkQueue: LinkQueue
-): Promise<void> => {
+interface DetailsPhase {
+  adapter: SiteAdapter;
+  fetcher: PageFetcher;
+  storageService: StorageService;
+  logger: Logger;
+  linkQueue: LinkQueue;
+  deadLetterStore: DeadLetterStore;
+  metrics: ScraperMetrics;
+  events: EventEmitter<ScraperEventMap> | null;
+  recordFilter: RecordFilter;
+}
+
+/**
+ * Scrapes a batch of links at the concurrency the throttle currently allows, then filters, saves and dead-letters the results
+ * Links cut short by an aborted signal go back to the queue instead of counting as failed, as do links whose
+ * robots.txt could not be fetched; the batch then fails so the run stops rather than skipping them
+ */
+const processBatch = async (links: string[], phase: DetailsPhase, signal: AbortSignal): Promise<void> => {
+  const { adapter, fetcher, storageService, logger, linkQueue, deadLetterStore, metrics, events, recordFilter } = phase;
   const config = getConfig();
   const startTime = Date.now();
+  let robotsUnavailable: RobotsUnavailableError | undefined;
   
-  // Dynamic batch sizing based on system performance
-  const stats = linkQueue.getStats();
-  const baseSize = config.scraping.maxConcurrent;
-  const successRate = stats.processed > 0 ? (stats.processed - stats.failed) / stats.processed : 1;
-  
-  // Adjust batch size based on success rate and processing time
-  const effectiveBatchSize = Math.max(
-    1,
-    Math.floor(baseSize * (
-      successRate > 0.9 ? 1.2 : // Increase if very successful
-      successRate > 0.7 ? 1 : // Keep same if moderately successful
-      0.8 // Reduce if struggling
-    ))
-  );
-  
+  // Follow the concurrency the throttle has settled on from the server's responses
+  const effectiveBatchSize = fetcher.getThrottleStats()?.concurrency ?? config.scraping.maxConcurrent;
   const limit = pLimit(effectiveBatchSize);
   
   try {
     // Process links with minimal delays
     const operations = links.map((url) => limit(async () => {
+      // Every entry about this book carries its URL
+      const bookLogger = logger.child({ url, operation: 'book' });
+      const seed = linkQueue.getSeed(url);
       try {
-        const details = await processLink(url, browserService, config);
-        return details ? { success: true, details } : { success: true, skipped: true };
+        const details = await processLink(url, seed, adapter, fetcher, config, bookLogger, metrics, signal);
+        const filter = recordFilter.rejects(details);
+        if (filter !== null) {
+          bookLogger.debug('Book filtered out', { filter });
+          return { success: true, skipped: { url, reason: 'filtered', filter } as BookSkippedEvent };
+        }
+        return { success: true, details };
       } catch (error) {
-        logger.error(`Failed to process ${url}`, error as Error);
-        return { success: false, url };
+        if (signal.aborted) {
+          return { success: true, cancelled: url };
+        }
+        if (error instanceof RobotsUnavailableError) {
+          return { success: true, cancelled: url, robotsUnavailable: error };
+        }
+        // Disallowed URLs were logged by the fetcher; they are skipped rather than dead-lettered
+        if (error instanceof DisallowedByRobotsError) {
+          return { success: true, skipped: { url, reason: 'disallowed' } as BookSkippedEvent };
+        }
+        bookLogger.error(`Failed to process ${url}`, error as Error);
+        return { success: false, url, record: createErrorRecord(url, error, seed), error: error as Error };
       }
     }));
 
@@ -150,27 +133,61 @@ const processBatch = async (
     
     // Separate successful and failed results
     const successfulResults = results
-      .filter((r): r is { success: true; details: BookDetails } => r.success && !('skipped' in r))
+      .filter((r): r is { success: true; details: BookDetails } => 'details' in r)
       .map(r => r.details);
+    const cancelled = results
+      .filter((r): r is { success: true; cancelled: string } => 'cancelled' in r)
+      .map(r => r.cancelled);
     
-    const failedUrls = results
-      .filter((r): r is { success: false; url: string } => !r.success)
-      .map(r => r.url);
+    const failures = results
+      .filter((r): r is { success: false; url: string; record: ScrapingErrorRecord; error: Error } => !r.success);
+    const failedRecords = failures.map(r => r.record);
+    const failedUrls = failedRecords.map(r => r.url);
 
-    const skippedCount = results.filter(r => r.success && 'skipped' in r).length;
+    const skipped = results
+      .filter((r): r is { success: true; skipped: BookSkippedEvent } => r.success && 'skipped' in r)
+      .map(r => r.skipped);
+    const skippedCount = skipped.length;
+    metrics.books.inc({ outcome: 'saved' }, successfulResults.length);
+    metrics.books.inc({ outcome: 'skipped' }, skippedCount);
+    metrics.books.inc({ outcome: 'failed' }, failedRecords.length);
 
     // Save successful results
     if (successfulResults.length > 0) {
-      await storageService.saveBookDetailsBatch(config.files.output, successfulResults);
+      await storageService.saveBookDetailsBatch(successfulResults);
     }
 
     // Update queue statistics
     const processingTime = Date.now() - startTime;
-    linkQueue.markProcessed(
-      links,
-      failedUrls.length === 0,
-      processingTime
-    );
+    const failedSet = new Set(failedUrls);
+    const cancelledSet = new Set(cancelled);
+    const finishedLinks = links.filter(link => !cancelledSet.has(link));
+    const succeededLinks = finishedLinks.filter(link => !failedSet.has(link));
+    if (cancelled.length > 0) {
+      linkQueue.requeue(cancelled);
+    }
+    if (succeededLinks.length > 0) {
+      linkQueue.markProcessed(succeededLinks, true, processingTime);
+    }
+    if (failedUrls.length > 0) {
+      linkQueue.markProcessed(failedUrls, false, processingTime);
+    }
+
+    // Keep the dead-letter file in step with this batch's outcome
+    failedRecords.forEach(record => deadLetterStore.add(record));
+    deadLetterStore.resolve(succeededLinks);
+    await deadLetterStore.save();
+
+    // Books are announced once they are saved
+    if (events) {
+      finishedLinks.forEach(url => events.emit('page:done', { phase: 'details', url }));
+      successfulResults.forEach(details => events.emit('book:scraped', details));
+      skipped.forEach(event => events.emit('book:skipped', event));
+      // An error event without a listener would throw, as EventEmitter does for 'error'
+      if (events.listenerCount('error') > 0) {
+        failures.forEach(({ url, error }) => events.emit('error', { url, error }));
+      }
+    }
 
     // Log batch results
     const stats = linkQueue.getStats();
@@ -178,38 +195,68 @@ const processBatch = async (
       successful: successfulResults.length,
       failed: failedUrls.length,
       skipped: skippedCount,
+      cancelled: cancelled.length,
       queueSize: stats.queueSize,
       avgProcessingTime: Math.round(stats.avgProcessingTime),
-      totalProcessed: stats.processed
+      totalProcessed: stats.processed,
+      throttle: fetcher.getThrottleStats()
     });
+    robotsUnavailable = results.find(r => 'robotsUnavailable' in r)?.robotsUnavailable;
   } catch (error) {
     // Mark entire batch as failed if we hit an unexpected error
     linkQueue.markProcessed(links, false, Date.now() - startTime);
     throw error;
   }
+
+  if (robotsUnavailable) {
+    throw robotsUnavailable;
+  }
 };
 
 /**
  * Scrapes details for all books from the collected links with improved concurrency
+ * Links a stopped or cancelled phase did not finish stay in the queue, and so in the checkpoint
  */
 export const scrapeBookDetails = async (
-  browserService: BrowserService,
+  adapter: SiteAdapter,
+  fetcher: PageFetcher,
   storageService: StorageService,
   logger: Logger,
-  linkQueue: LinkQueue
+  linkQueue: LinkQueue,
+  options: DetailsPhaseOptions = {}
 ): Promise<void> => {
   const config = getConfig();
   const startTime = new Date();
+  const { metrics = new ScraperMetrics(), events = null, control = new RunControl() } = options;
+  let { deadLetterStore } = options;
+  if (!deadLetterStore) {
+    // Keep earlier failures so the dead-letter file only shrinks when they succeed
+    deadLetterStore = new DeadLetterStore(config.files.deadLetter, logger);
+    await deadLetterStore.load();
+  }
+  const phase: DetailsPhase = {
+    adapter, fetcher, storageService, logger, linkQueue, deadLetterStore, metrics, events,
+    recordFilter: new RecordFilter(config.filters, logger)
+  };
   
+  metrics.startPhase('details');
   try {
-    await browserService.initialize();
+    await fetcher.initialize();
 
     // Process links with adaptive batching
     while (linkQueue.hasMore()) {
+      await control.waitWhilePaused();
+      if (control.stopped) {
+        logger.info('Details scraping stopped', { pending: linkQueue.getStats().queueSize });
+        break;
+      }
+
       const batch = linkQueue.getBatch(config.scraping.maxConcurrent);
       
       if (batch.length > 0) {
-        await processBatch(batch, browserService, storageService, logger, linkQueue);
+        await processBatch(batch, phase, control.signal);
+        metrics.recordProgress('details');
+        events?.emit('progress', linkQueue.getProgress('details'));
       } else if (!linkQueue.hasMore()) {
         break;
       } else {
@@ -220,6 +267,8 @@ export const scrapeBookDetails = async (
           1000 // max 1 second
         );
         await new Promise(resolve => setTimeout(resolve, waitTime));
+        // Waiting on the links phase is not a stall here; that phase's own health covers it
+        metrics.recordProgress('details');
       }
     }
 
@@ -229,26 +278,65 @@ export const scrapeBookDetails = async (
       processed: stats.processed,
       failed: stats.failed,
       duration: `${duration}s`,
-      avgProcessingTime: `${Math.round(stats.avgProcessingTime)}ms`
+      avgProcessingTime: `${Math.round(stats.avgProcessingTime)}ms`,
+      throttle: fetcher.getThrottleStats()
     });
+    metrics.endPhase('details', false);
   } catch (error) {
+    metrics.endPhase('details', true);
     logger.error('Failed to scrape book details', error as Error);
     throw error;
   } finally {
-    await browserService.close();
+    await fetcher.close();
   }
 };
 
-// Run if called directly
-if (import.meta.url === `file://${process.argv[1]}`) {
+/**
+ * Runs the details phase on its own over the links a links phase saved to the checkpoint file
+ * Progress is checkpointed as it goes, so running it again continues where it stopped
+ * Serves metrics and health while it runs when a metrics port is configured
+ * @param control - Stops or cancels the phase, e.g. on a signal
+ * @returns The queue, holding whatever the phase did not get to
+ */
+export const scrapeCollectedLinks = async (logger: Logger, control = new RunControl()): Promise<LinkQueue> => {
   const config = getConfig();
-  const logger = new ConsoleLogger();
-  const browserService = new BrowserService(config, logger);
-  const storageService = new StorageService(logger);
+  const storageService = new StorageService(logger, createOutputSink(config, logger));
+  const checkpointService = new CheckpointService(config.files.checkpoint, logger);
+  const deadLetterStore = new DeadLetterStore(config.files.deadLetter, logger);
   const linkQueue = new LinkQueue(logger);
+  const metrics = new ScraperMetrics();
+  const metricsServer = config.metrics.port !== null ? new MetricsServer(metrics, config, logger) : null;
 
-  scrapeBookDetails(browserService, storageService, logger, linkQueue).catch(error => {
-    logger.error('Scraping failed:', error as Error);
-    process.exit(1);
-  });
-}
+  try {
+    if (!await checkpointService.restoreQueue(linkQueue, since => storageService.readUrlsSeenSince(since))) {
+      throw new Error(`No collected links in ${config.files.checkpoint}; run the links phase first`);
+    }
+    if (!linkQueue.isCollectionComplete()) {
+      throw new Error(`Link collection in ${config.files.checkpoint} has not finished; resume the links phase first`);
+    }
+
+    await deadLetterStore.load();
+    const fetcher = new MetricsFetcher(createFetcher(config.scraping.fetchers.details, config, logger), metrics, 'details');
+    metrics.watchQueue(linkQueue);
+    metrics.watchThrottle(() => fetcher.getThrottleStats());
+    await metricsServer?.start();
+    checkpointService.startAutoSave(linkQueue, config.checkpoint.intervalMs, () => storageService.flush());
+    try {
+      await scrapeBookDetails(
+        createSiteAdapter(config),
+        fetcher,
+        storageService,
+        logger,
+        linkQueue,
+        { deadLetterStore, metrics, control }
+      );
+    } finally {
+      checkpointService.stopAutoSave();
+      await storageService.flush();
+      await checkpointService.save(linkQueue);
+    }
+  } finally {
+    await Promise.all([storageService.close(), metricsServer?.stop()]);
+  }
+  return linkQueue;
+};
@@ -0,0 +1,30 @@
+import { createOutputSink, openOutputFile } from './services/sinks/index.js';
+import { Logger, OutputFormat, ScraperConfig } from './types.js';
+
+/**
+ * Copies every book in the configured output to another file, converting between formats
+ * Books keep their first and last seen times, and books already in the target are updated in place
+ * A CSV target gets no recommendations file
+ * @param format - Format of the target; inferred from its extension when not given
+ * @returns Number of books exported
+ */
+export const exportOutput = async (
+  config: ScraperConfig,
+  targetFile: string,
+  format: OutputFormat | undefined,
+  logger: Logger
+): Promise<number> => {
+  const source = createOutputSink(config, logger);
+  const books = await source.readAll();
+  await source.close();
+
+  const target = openOutputFile(targetFile, logger, format);
+  try {
+    await target.writeStored(books);
+  } finally {
+    await target.close();
+  }
+
+  logger.info('Output exported', { from: config.files.output, to: targetFile, books: books.length });
+  return books.length;
+};
@@ -1,178 +1,282 @@
-import cheerio from 'cheerio';
 import { getConfig } from './config.js';
 import { retry } from './utils.js';
-import { NetworkError, ParseError, Logger, RetryConfig } from './types.js';
+import { EventEmitter } from 'events';
+import { DisallowedByRobotsError, NetworkError, Logger, RobotsUnavailableError, RetryConfig, ScrapingError, PageFetcher, ListingPage, ScraperEventMap, SiteAdapter } from './types.js';
 import pLimit from 'p-limit';
-import { ConsoleLogger } from './logger.js';
-import { BrowserService } from './services/browser.js';
+import { createFetcher } from './services/fetcher.js';
 import { LinkQueue } from './services/linkQueue.js';
-import { Page } from 'puppeteer';
-
-// Cache for parsed selectors to improve performance
-const selectorCache = new Map<string, ReturnType<typeof cheerio.load>>();
+import { CheckpointService } from './services/checkpoint.js';
+import { MetricsFetcher, MetricsServer, ScraperMetrics } from './services/metrics.js';
+import { RunControl } from './services/runControl.js';
+import { createSiteAdapter } from './adapters/index.js';
 
 /**
- * Processes a single page and extracts links with optimized parsing
+ * Fetches a single listing page and reads its book links and pagination through the site adapter
  */
 const processPage = async (
   url: string,
-  browserService: BrowserService,
-  logger: Logger
-): Promise<{ links: string[]; nextUrl: string | null }> => {
+  adapter: SiteAdapter,
+  fetcher: PageFetcher,
+  logger: Logger,
+  metrics: ScraperMetrics,
+  signal?: AbortSignal
+): Promise<ListingPage> => {
   const config = getConfig();
   
-  const pageContent = await browserService.executeOperation(async (page: Page) => {
-    try {
-      const retryConfig: RetryConfig = {
-        maxAttempts: 3,
-        delayMs: 500, // Reduced delay
-        backoffFactor: 1.5, // Reduced backoff
-        timeout: config.scraping.timeout
-      };
-
-      return await retry(
-        async () => {
-          await page.goto(url);
-          return await page.content();
-        },
-        retryConfig,
-        url
-      );
-    } catch (error) {
-      throw new NetworkError(url, error as Error);
-    }
-  }, url);
-
-  // Get or create cached Cheerio instance
-  const $ = cheerio.load(pageContent);
+  let pageContent: string;
+  try {
+    const retryConfig: RetryConfig = {
+      maxAttempts: config.retry.maxAttempts,
+      delayMs: config.retry.delayMs,
+      backoffFactor: config.retry.backoffFactor,
+      maxDelay: config.retry.maxDelayMs,
+      timeout: config.scraping.timeout,
+      onRetry: error => metrics.retries.inc({ error: error.name })
+    };
 
-  const links = await extractLinks($, config.selectors.bookLinks, url);
-  const nextUrl = await extractNextPageUrl($, config.selectors.nextPage, url);
+    pageContent = await retry(
+      async () => {
+        try {
+          return (await fetcher.fetch(url, { signal })).body;
+        } catch (error) {
+          // Classified before it is retried, so retries are counted by error class
+          throw error instanceof ScrapingError ? error : new NetworkError(url, error as Error);
+        }
+      },
+      retryConfig,
+      url,
+      logger.child({ url, operation: 'listing' }),
+      signal
+    );
+  } catch (error) {
+    if (error instanceof DisallowedByRobotsError || error instanceof RobotsUnavailableError || signal?.aborted) {
+      throw error;
+    }
+    throw new NetworkError(url, error as Error);
+  }
 
-  return { links, nextUrl };
+  return adapter.extractListing(pageContent, url);
 };
 
 /**
- * Extracts book links from page content using cached Cheerio instance
- * Processes links concurrently in batches for better performance
+ * Logs how a seed's pagination ended, warning when it stopped before the last page the pager showed
  */
-const extractLinks = async (
-  $: ReturnType<typeof cheerio.load>,
-  selector: string,
-  url: string
-): Promise<string[]> => {
-  try {
-    const elements = $(selector).toArray();
-    const concurrencyLimit = pLimit(5); // Process 5 links concurrently
-    
-    const links = await Promise.all(
-      elements.map(elem => 
-        concurrencyLimit(() => {
-          const href = $(elem).attr('href');
-          return href || null;
-        })
-      )
-    );
-
-    return links.filter((link): link is string => link !== null);
-  } catch (error) {
-    throw new ParseError(url, error as Error, { selector });
+const reportSeedEnd = (
+  seed: string,
+  progress: { visited: Set<string>; lastPage: number | null; totalPages: number | null },
+  logger: Logger
+): void => {
+  const { lastPage, totalPages } = progress;
+  if (totalPages !== null && lastPage !== null && lastPage < totalPages) {
+    logger.warn(`Seed ${seed} stopped at page ${lastPage} of ${totalPages}. The listing was only partly collected.`, {
+      seed, lastPage, totalPages
+    });
+    return;
   }
+  logger.info(`Reached the last page of seed ${seed}`, {
+    seed, pagesVisited: progress.visited.size, totalPages
+  });
 };
 
 /**
- * Extracts next page URL from page content using cached Cheerio instance
+ * Optional collaborators of the listing phase
  */
-const extractNextPageUrl = async (
-  $: ReturnType<typeof cheerio.load>,
-  selector: string,
-  url: string
-): Promise<string | null> => {
-  try {
-    return $(selector).attr('href') || null;
-  } catch (error) {
-    throw new ParseError(url, error as Error, { selector });
-  }
-};
+export interface LinkPhaseOptions {
+  metrics?: ScraperMetrics;  // Receives retry counts and the phase's progress
+  events?: EventEmitter<ScraperEventMap> | null;  // Receives page:done for each listing page and progress after each round
+  control?: RunControl;  // Pauses or stops the collection between rounds, or cancels the pages in flight
+}
 
 /**
  * Scrapes book links from the website and adds them to the link queue
- * Optimized with concurrent page processing and selector caching
+ * Optimized with concurrent page processing
+ * A stopped collection is not marked complete, and cancelled pages are where their seeds resume
  */
 export const scrapeBookLinks = async (
-  browserService: BrowserService,
+  adapter: SiteAdapter,
+  fetcher: PageFetcher,
   logger: Logger,
-  linkQueue: LinkQueue
+  linkQueue: LinkQueue,
+  options: LinkPhaseOptions = {}
 ): Promise<void> => {
   const config = getConfig();
+  const { metrics = new ScraperMetrics(), events = null, control = new RunControl() } = options;
   const concurrencyLimit = pLimit(5); // Process 5 book links concurrently
+
+  metrics.startPhase('links');
+  if (linkQueue.isCollectionComplete()) {
+    logger.info('Link collection already completed in a previous run. Skipping listing pages.');
+    metrics.endPhase('links', false);
+    return;
+  }
   
   try {
-    await browserService.initialize();
-    let urls = [`${config.base.url}${config.base.bookListPath}`];
+    await fetcher.initialize();
+
+    // Each seed is paginated on its own; continue from the checkpointed page where there is one
+    let pages: { seed: string; url: string }[] = [];
+    for (const seed of config.base.seeds) {
+      const resumeUrl = linkQueue.getNextPageUrl(seed);
+      if (resumeUrl !== null) {
+        pages.push({ seed, url: resumeUrl ?? adapter.seedUrl(seed) });
+      }
+    }
+    // Pages seen and total page count per seed, to detect cycles and listings cut short
+    const seedProgress = new Map(config.base.seeds.map(seed => [
+      seed,
+      { visited: new Set<string>(), visitedPages: new Set<number>(), lastPage: null as number | null, totalPages: null as number | null }
+    ]));
     let totalLinks = 0;
     let pageNum = 1;
 
-    while (urls.length > 0) {
-      logger.info(`Processing batch of ${urls.length} pages starting from page ${pageNum}...`);
+    while (pages.length > 0) {
+      await control.waitWhilePaused();
+      if (control.stopped) {
+        logger.info('Link collection stopped', { remainingPages: pages.length });
+        break;
+      }
+
+      // Take as many pages as we process concurrently; the rest wait for the next round
+      const batch = pages.slice(0, 5);
+      logger.info(`Processing batch of ${batch.length} pages starting from page ${pageNum}...`, {
+        seeds: [...new Set(batch.map(page => page.seed))]
+      });
       
-      // Process multiple pages concurrently
+      // Process multiple pages concurrently; pages robots.txt disallows end their seed
       const results = await Promise.all(
-        urls.map(url => 
-          concurrencyLimit(() => processPage(url, browserService, logger))
+        batch.map(({ url }) => 
+          concurrencyLimit(() => processPage(url, adapter, fetcher, logger, metrics, control.signal).catch(error => {
+            if (control.signal.aborted) {
+              return 'cancelled' as const;
+            }
+            if (error instanceof DisallowedByRobotsError) {
+              return null;
+            }
+            throw error;
+          }))
         )
       );
 
       // Collect next URLs and process results
-      const nextUrls: string[] = [];
-      for (const { links, nextUrl } of results) {
+      const nextPages: { seed: string; url: string }[] = [];
+      results.forEach((result, index) => {
+        const { seed, url } = batch[index];
+        if (result === 'cancelled') {
+          // The seed's next page is still this one, so a resumed run fetches it again
+          return;
+        }
+        if (!result) {
+          logger.warn(`Seed ${seed} stopped at a listing page disallowed by robots.txt`, { seed, url });
+          linkQueue.setNextPageUrl(seed, null);
+          return;
+        }
+
+        const { links, pagination } = result;
+        const progress = seedProgress.get(seed)!;
+        progress.visited.add(url);
+        if (pagination.currentPage !== null) {
+          progress.visitedPages.add(pagination.currentPage);
+          progress.lastPage = pagination.currentPage;
+        }
+
+        if (pagination.totalPages !== null && pagination.totalPages > (progress.totalPages ?? 0)) {
+          if (progress.totalPages === null) {
+            logger.info(`Seed ${seed} has ${pagination.totalPages} listing pages`, { seed });
+          }
+          progress.totalPages = pagination.totalPages;
+        }
+
+        let next = links.length > 0 ? pagination.nextUrl : null;
+        const seenBefore = progress.visited.has(next ?? '') ||
+          (pagination.nextPage !== null && progress.visitedPages.has(pagination.nextPage));
+        if (next && seenBefore) {
+          logger.warn(`Pagination of seed ${seed} leads back to a page already visited. Stopping this seed.`, {
+            seed, url, next
+          });
+          next = null;
+        }
+
         if (links.length > 0) {
-          linkQueue.addLinks(links);
+          linkQueue.addLinks(links, seed);
           totalLinks += links.length;
-          
-          if (nextUrl) {
-            nextUrls.push(config.base.url + nextUrl);
-          }
         }
-      }
+        events?.emit('page:done', { phase: 'links', url, links: links.length });
+        if (next) {
+          nextPages.push({ seed, url: next });
+        } else {
+          reportSeedEnd(seed, progress, logger);
+        }
+        linkQueue.setNextPageUrl(seed, next);
+      });
 
-      // Update URLs array with next batch
-      // If we have more than 5 URLs, only take the first 5 to match our concurrency limit
-      urls = nextUrls.slice(0, 5);
+      pages = [...pages.slice(batch.length), ...nextPages];
+      metrics.recordProgress('links');
+      events?.emit('progress', linkQueue.getProgress('links'));
 
       // Log progress
-      logger.info(`Processed ${results.length} pages. Total links: ${totalLinks}`);
+      logger.info(`Processed ${results.length} pages. Total links: ${totalLinks}`, {
+        throttle: fetcher.getThrottleStats()
+      });
       pageNum += results.length;
 
-      if (urls.length === 0) {
+      if (pages.length === 0) {
         logger.info('No more pages to process. Scraping completed.');
         break;
       }
+    }
 
-      // Clear selector cache periodically to manage memory
-      if (selectorCache.size > 100) {
-        selectorCache.clear();
-      }
+    if (control.stopped) {
+      // Left incomplete so a resumed run carries on from the checkpointed pages
+      metrics.endPhase('links', false);
+      return;
     }
 
     logger.info(`Link collection completed. Total links collected: ${totalLinks}`);
     linkQueue.markComplete();
+    metrics.endPhase('links', false);
   } catch (error) {
+    metrics.endPhase('links', true);
     logger.error('Failed to scrape book links', error as Error);
     throw error;
   } finally {
-    await browserService.close();
+    await fetcher.close();
   }
 };
 
-// Run if called directly
-if (import.meta.url === `file://${process.argv[1]}`) {
+/**
+ * Runs the listing phase on its own, saving the collected links to the checkpoint file for a later details phase
+ * Serves metrics and health while it runs when a metrics port is configured
+ * @param options.resume - Continue an earlier, unfinished link collection from the checkpoint
+ * @param options.control - Stops or cancels the collection, e.g. on a signal
+ */
+export const collectLinks = async (
+  logger: Logger,
+  options: { resume: boolean; control?: RunControl }
+): Promise<LinkQueue> => {
   const config = getConfig();
-  const logger = new ConsoleLogger();
-  const browserService = new BrowserService(config, logger);
   const linkQueue = new LinkQueue(logger);
+  const checkpointService = new CheckpointService(config.files.checkpoint, logger);
+  const metrics = new ScraperMetrics();
+  const metricsServer = config.metrics.port !== null ? new MetricsServer(metrics, config, logger) : null;
+  const fetcher = new MetricsFetcher(createFetcher(config.scraping.fetchers.links, config, logger), metrics, 'links');
 
-  scrapeBookLinks(browserService, logger, linkQueue).catch(error => {
-    logger.error('Scraping failed:', error as Error);
-  });
-}
+  if (options.resume && !await checkpointService.restoreQueue(linkQueue)) {
+    logger.warn('No checkpoint found. Collecting links from the start.', { filePath: config.files.checkpoint });
+  }
+
+  metrics.watchQueue(linkQueue);
+  metrics.watchThrottle(() => fetcher.getThrottleStats());
+  await metricsServer?.start();
+  checkpointService.startAutoSave(linkQueue, config.checkpoint.intervalMs);
+  try {
+    await scrapeBookLinks(createSiteAdapter(config), fetcher, logger, linkQueue, { metrics, control: options.control });
+  } finally {
+    // Whatever was collected is kept, so an interrupted collection can be resumed
+    checkpointService.stopAutoSave();
+    await checkpointService.save(linkQueue);
+    await metricsServer?.stop();
+  }
+
+  logger.info('Collected links saved', { filePath: config.files.checkpoint, links: linkQueue.getStats().queueSize });
+  return linkQueue;
+};
@@ -1,44 +1,132 @@
-import { Logger } from './types.js';
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Logger, LogLevel, ScraperConfig } from './types.js';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
 
 /**
- * Implementation of the Logger interface that handles console logging
+ * Appends lines to a log file, rotating it to file.1, file.2, ... once it reaches its size limit
+ * Writes are synchronous so no entry is lost when the process exits
  */
-export class ConsoleLogger implements Logger {
-  private formatMessage(message: string, context?: Record<string, unknown>): string {
-    return context ? `${message} ${JSON.stringify(context)}` : message;
+export class RotatingFileWriter {
+  private size: number;
+
+  /**
+   * @param maxBytes - Size at which the file is rotated
+   * @param maxFiles - Rotated files kept; older ones are deleted
+   */
+  constructor(
+    private filePath: string,
+    private maxBytes: number,
+    private maxFiles: number
+  ) {
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    this.size = existsSync(filePath) ? statSync(filePath).size : 0;
   }
 
-  async info(message: string, context?: Record<string, unknown>): Promise<void> {
-    console.info(`[INFO] ${this.formatMessage(message, context)}`);
+  write(line: string): void {
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+    appendFileSync(this.filePath, line);
+    this.size += bytes;
   }
 
-  async warn(message: string, context?: Record<string, unknown>): Promise<void> {
-    console.warn(`[WARN] ${this.formatMessage(message, context)}`);
+  private rotate(): void {
+    rmSync(`${this.filePath}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      if (existsSync(`${this.filePath}.${index}`)) {
+        renameSync(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`);
+      }
+    }
+    renameSync(this.filePath, `${this.filePath}.1`);
+    this.size = 0;
   }
+}
 
-  async error(message: string, error?: Error, context?: Record<string, unknown>): Promise<void> {
-    const errorContext = {
-      ...context,
-      ...(error && {
-        errorName: error.name,
-        errorMessage: error.message,
-        errorStack: error.stack
-      })
-    };
+/**
+ * Where log entries go and which are kept
+ */
+export interface JsonLoggerOptions {
+  level: LogLevel;
+  runId: string;
+  console: boolean;
+  file: RotatingFileWriter | null;
+}
 
-    console.error(`[ERROR] ${this.formatMessage(message, errorContext)}`);
+/**
+ * Serializes errors and their causes, which JSON.stringify would otherwise turn into {}
+ */
+const serialize = (_key: string, value: unknown): unknown => {
+  if (!(value instanceof Error)) {
+    return value;
   }
+  const { cause } = value as Error & { cause?: unknown };
+  return { name: value.name, message: value.message, stack: value.stack, ...(cause ? { cause } : {}) };
+};
+
+/**
+ * Logger that writes one JSON object per line to the console and, optionally, a rotating log file
+ * Every entry carries the run id and the logger's bindings, so the entries for one URL can be pulled out with grep or jq
+ */
+export class JsonLogger implements Logger {
+  constructor(
+    private options: JsonLoggerOptions,
+    private bindings: Record<string, unknown> = {}
+  ) {}
 
-  async debug(message: string, context?: Record<string, unknown>): Promise<void> {
-    if (process.env.DEBUG === 'true') {
-      console.debug(`[DEBUG] ${this.formatMessage(message, context)}`);
+  private write(level: LogLevel, message: string, context?: Record<string, unknown>): void {
+    if (LEVELS[level] < LEVELS[this.options.level]) {
+      return;
     }
+
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      runId: this.options.runId,
+      ...this.bindings,
+      msg: message,
+      ...context
+    }, serialize);
+
+    if (this.options.console) {
+      (level === 'warn' || level === 'error' ? console.error : console.log)(line);
+    }
+    this.options.file?.write(`${line}\n`);
+  }
+
+  info(message: string, context?: Record<string, unknown>): void {
+    this.write('info', message, context);
+  }
+
+  warn(message: string, context?: Record<string, unknown>): void {
+    this.write('warn', message, context);
+  }
+
+  error(message: string, error?: Error, context?: Record<string, unknown>): void {
+    this.write('error', message, error ? { ...context, error } : context);
+  }
+
+  debug(message: string, context?: Record<string, unknown>): void {
+    this.write('debug', message, context);
+  }
+
+  child(bindings: Record<string, unknown>): Logger {
+    return new JsonLogger(this.options, { ...this.bindings, ...bindings });
   }
 }
 
 /**
- * Creates a singleton logger instance
+ * Creates the logger for a run, with a fresh run id
  */
-export const createLogger = (): Logger => {
-  return new ConsoleLogger();
+export const createLogger = (config: ScraperConfig, runId: string = randomUUID()): Logger => {
+  const { level, file, maxFileBytes, maxFiles } = config.logging;
+  return new JsonLogger({
+    level,
+    runId,
+    console: true,
+    file: file ? new RotatingFileWriter(file, maxFileBytes, maxFiles) : null
+  });
 };
@@ -0,0 +1,124 @@
+import { BookDetails } from './types.js';
+
+// ELOT 743 Latin letters for single Greek letters, by lower-case letter
+const LETTERS: Record<string, string> = {
+  α: 'a', β: 'v', γ: 'g', δ: 'd', ε: 'e', ζ: 'z', η: 'i', θ: 'th', ι: 'i', κ: 'k', λ: 'l', μ: 'm',
+  ν: 'n', ξ: 'x', ο: 'o', π: 'p', ρ: 'r', σ: 's', ς: 's', τ: 't', υ: 'y', φ: 'f', χ: 'ch', ψ: 'ps', ω: 'o'
+};
+
+// Letter pairs with a transliteration of their own; μπ and the υ diphthongs depend on their neighbours
+const PAIRS: Record<string, string> = {
+  αι: 'ai', ει: 'ei', οι: 'oi', ου: 'ou', υι: 'yi', γγ: 'ng', γκ: 'gk', γξ: 'nx', γχ: 'nch'
+};
+
+// Vowels that form αυ, ευ and ηυ, read as v before a vowel or voiced consonant and as f otherwise
+const U_DIPHTHONGS: Record<string, string> = { α: 'a', ε: 'e', η: 'i' };
+const VOICED = new Set('αεηιουωβγδζλμνρ');
+
+const DIAERESIS = '\u0308';
+
+/**
+ * Puts text in the form titles and authors are stored in
+ * Composes accents (NFC), collapses runs of whitespace including non-breaking spaces, and writes
+ * sigma as ς at the end of a word and σ inside one
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize('NFC')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/(?<=\p{L})σ(?![\p{L}\p{M}])/gu, 'ς')
+    .replace(/ς(?=\p{L})/gu, 'σ');
+
+/**
+ * Reduces text to a key that compares equal regardless of accents, case, sigma form and spacing
+ */
+export const matchKey = (text: string): string =>
+  normalizeText(text)
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLocaleLowerCase('el')
+    .replace(/ς/g, 'σ');
+
+/**
+ * Reduces an author's name to a key shared by every way the site writes it
+ * "Surname, Name" is read as "Name Surname", and punctuation such as the dots of initials is dropped
+ */
+export const canonicalAuthorKey = (author: string): string => {
+  const parts = normalizeText(author).split(',');
+  const ordered = parts.length === 2 && parts.every(part => part.trim()) ? `${parts[1]} ${parts[0]}` : parts.join(' ');
+  return matchKey(ordered.replace(/[^\p{L}\p{M}\p{N}]+/gu, ' '));
+};
+
+/**
+ * Transliterates Greek text to Latin script following ELOT 743
+ * Accents are dropped, a diaeresis keeps two vowels apart, and words written in capitals stay in capitals
+ * Characters that are not Greek letters are kept as they are
+ */
+export const transliterate = (text: string): string => {
+  const units = normalizeText(text).normalize('NFD').match(/\P{M}\p{M}*/gu) ?? [];
+  const letters = units.map(unit => {
+    const lower = unit[0].toLocaleLowerCase('el');
+    return LETTERS[lower] === undefined
+      ? null
+      : { lower, upper: unit[0] !== lower, diaeresis: unit.includes(DIAERESIS) };
+  });
+
+  // Words of more than one letter written entirely in capitals
+  const capitals = letters.map(() => false);
+  for (let start = 0; start < letters.length; start++) {
+    if (!letters[start] || letters[start - 1]) {
+      continue;
+    }
+    let end = start;
+    while (letters[end]) {
+      end++;
+    }
+    const allUpper = end - start > 1 && letters.slice(start, end).every(letter => letter!.upper);
+    capitals.fill(allUpper, start, end);
+  }
+
+  let result = '';
+  for (let i = 0; i < units.length; i++) {
+    const letter = letters[i];
+    if (!letter) {
+      result += units[i].normalize('NFC');
+      continue;
+    }
+
+    const next = letters[i + 1];
+    const pair = next && !next.diaeresis ? letter.lower + next.lower : '';
+    let latin: string;
+    if (PAIRS[pair]) {
+      latin = PAIRS[pair];
+      i++;
+    } else if (next?.lower === 'υ' && pair && U_DIPHTHONGS[letter.lower]) {
+      const after = letters[i + 2];
+      latin = U_DIPHTHONGS[letter.lower] + (after && VOICED.has(after.lower) ? 'v' : 'f');
+      i++;
+    } else if (pair === 'μπ') {
+      // b at either end of a word, mp inside it
+      latin = !letters[i - 1] || !letters[i + 2] ? 'b' : 'mp';
+      i++;
+    } else {
+      latin = LETTERS[letter.lower];
+    }
+
+    if (capitals[i]) {
+      latin = latin.toUpperCase();
+    } else if (letter.upper) {
+      latin = latin[0].toUpperCase() + latin.slice(1);
+    }
+    result += latin;
+  }
+  return result;
+};
+
+/**
+ * Fields derived from a book's title and author for matching and for Latin-script systems
+ */
+export const describeNames = (book: Pick<BookDetails, 'title' | 'author'>): Pick<BookDetails, 'authorKey' | 'authorLatin' | 'titleLatin'> => ({
+  authorKey: canonicalAuthorKey(book.author),
+  authorLatin: transliterate(book.author),
+  titleLatin: transliterate(book.title)
+});
@@ -0,0 +1,141 @@
+import cheerio from 'cheerio';
+import { PaginationInfo, SiteSelectors } from './types.js';
+
+// Query parameters that number listing pages directly, and those that hold an item offset
+const PAGE_PARAMETERS = ['page', 'p'];
+const OFFSET_PARAMETERS = ['limitstart', 'start'];
+
+// Link text, titles and labels used for the "next" arrow
+const NEXT_LABEL = /^(επόμενη|επόμενο|next|›|»|>|→)$/i;
+
+/**
+ * Reads a listing page's position from its query string
+ * @returns The page number or item offset, or null when the URL has neither
+ */
+const readPosition = (url: URL): { parameter: string; value: number } | null => {
+  for (const parameter of [...PAGE_PARAMETERS, ...OFFSET_PARAMETERS]) {
+    const raw = url.searchParams.get(parameter);
+    if (raw !== null && /^\d+$/.test(raw)) {
+      return { parameter, value: Number(raw) };
+    }
+  }
+  return null;
+};
+
+/**
+ * Works out the number of items per page from the offsets the pager links to
+ */
+const detectOffsetStep = (offsets: number[]): number | null => {
+  const sorted = [...new Set([0, ...offsets])].sort((a, b) => a - b);
+  const steps = sorted.slice(1).map((offset, index) => offset - sorted[index]);
+  return steps.length > 0 ? Math.min(...steps) : null;
+};
+
+/**
+ * Finds the next listing page and the total page count from a listing page
+ * Tries rel="next", the configured next-page selector, the pager's "next" arrow,
+ * and finally the page-number or limitstart query parameters of the pager links
+ * @param $ - Parsed listing page
+ * @param url - URL the page was fetched from; relative links are resolved against it
+ */
+export const discoverPagination = (
+  $: ReturnType<typeof cheerio.load>,
+  url: string,
+  selectors: Pick<SiteSelectors, 'pagination' | 'nextPage'>
+): PaginationInfo => {
+  const current = new URL(url);
+  const resolve = (href: string | undefined): URL | null => {
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) {
+      return null;
+    }
+    try {
+      return new URL(href, current);
+    } catch {
+      return null;
+    }
+  };
+
+  const pagerLinks = $(selectors.pagination).find('a[href]').toArray()
+    .map(elem => ({ elem, target: resolve($(elem).attr('href')) }))
+    .filter((link): link is { elem: typeof link.elem; target: URL } => link.target !== null);
+
+  // Position of the current page and of every page the pager links to
+  const currentPosition = readPosition(current);
+  const linkedPositions = pagerLinks
+    .map(({ target }) => readPosition(target))
+    .filter((position): position is NonNullable<typeof position> => position !== null);
+  const parameter = currentPosition?.parameter ?? linkedPositions[0]?.parameter ?? null;
+  const sameParameter = linkedPositions.filter(position => position.parameter === parameter);
+  const offset = OFFSET_PARAMETERS.includes(parameter ?? '');
+  const step = offset
+    ? detectOffsetStep([currentPosition?.value ?? 0, ...sameParameter.map(position => position.value)])
+    : 1;
+
+  const toPageNumber = (value: number): number | null => {
+    if (!offset) {
+      return value;
+    }
+    return step ? Math.floor(value / step) + 1 : null;
+  };
+  const currentPage = parameter === null
+    ? null
+    : toPageNumber(currentPosition?.value ?? (offset ? 0 : 1));
+
+  // Highest page the pager exposes, counting the "last" link and numbered buttons
+  const numberedPages = [
+    ...sameParameter.map(position => toPageNumber(position.value)),
+    ...pagerLinks.map(({ elem }) => $(elem).text().trim()).filter(text => /^\d+$/.test(text)).map(Number),
+  ].filter((page): page is number => page !== null);
+  const totalPages = numberedPages.length > 0
+    ? Math.max(currentPage ?? 1, ...numberedPages)
+    : null;
+
+  const pageOf = (target: URL): number | null => {
+    const position = readPosition(target);
+    if (position === null) {
+      return parameter === null ? null : 1;
+    }
+    return position.parameter === parameter ? toPageNumber(position.value) : null;
+  };
+  const found = (target: URL | null, source: PaginationInfo['source']): PaginationInfo | null =>
+    target && target.toString() !== current.toString()
+      ? { nextUrl: target.toString(), nextPage: pageOf(target), currentPage, totalPages, source }
+      : null;
+
+  const relNext = found(resolve($('link[rel="next"], a[rel="next"]').first().attr('href')), 'rel');
+  if (relNext) {
+    return relNext;
+  }
+
+  const selected = found(resolve($(selectors.nextPage).first().attr('href')), 'selector');
+  if (selected) {
+    return selected;
+  }
+
+  const arrow = pagerLinks.find(({ elem }) => {
+    const link = $(elem);
+    const labels = [link.text(), link.attr('title'), link.attr('aria-label')]
+      .map(label => label?.trim() ?? '')
+      .filter(Boolean);
+    return labels.some(label => NEXT_LABEL.test(label)) || /\bnext\b/i.test(link.parent().attr('class') ?? '');
+  });
+  const arrowNext = found(arrow?.target ?? null, 'arrow');
+  if (arrowNext) {
+    return arrowNext;
+  }
+
+  // Only follow a computed page number when the pager actually links to it
+  if (parameter !== null && currentPage !== null && step) {
+    const expected = offset ? currentPage * step : currentPage + 1;
+    const next = pagerLinks.find(({ target }) => {
+      const position = readPosition(target);
+      return position?.parameter === parameter && position.value === expected;
+    });
+    const parameterNext = found(next?.target ?? null, 'parameter');
+    if (parameterNext) {
+      return parameterNext;
+    }
+  }
+
+  return { nextUrl: null, nextPage: null, currentPage, totalPages, source: null };
+};
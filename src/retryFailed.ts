@@ -0,0 +1,51 @@
+import { getConfig } from './config.js';
+import { scrapeBookDetails } from './detailsScraper.js';
+import { createFetcher } from './services/fetcher.js';
+import { StorageService } from './services/storage.js';
+import { createOutputSink } from './services/sinks/index.js';
+import { LinkQueue } from './services/linkQueue.js';
+import { DeadLetterStore } from './services/deadLetter.js';
+import { createSiteAdapter } from './adapters/index.js';
+import { Logger } from './types.js';
+
+/**
+ * Re-queues every URL in the dead-letter file under its seed and scrapes its details again
+ * URLs that succeed are removed from the file; those that fail again stay with an increased attempt count
+ */
+export const retryFailed = async (logger: Logger): Promise<{ recovered: number; stillFailing: number }> => {
+  const config = getConfig();
+  const deadLetterStore = new DeadLetterStore(config.files.deadLetter, logger);
+  const records = await deadLetterStore.load();
+
+  if (records.length === 0) {
+    logger.info('No failed URLs to retry', { filePath: config.files.deadLetter });
+    return { recovered: 0, stillFailing: 0 };
+  }
+
+  const byType = records.reduce<Record<string, number>>((counts, record) => {
+    counts[record.errorType] = (counts[record.errorType] ?? 0) + 1;
+    return counts;
+  }, {});
+  logger.info(`Retrying ${records.length} failed URLs`, byType);
+
+  const fetcher = createFetcher(config.scraping.fetchers.details, config, logger);
+  const storageService = new StorageService(logger, createOutputSink(config, logger));
+  const linkQueue = new LinkQueue(logger);
+
+  // No listing phase: the queue holds exactly the dead-lettered URLs
+  for (const record of records) {
+    linkQueue.addLinks([record.url], record.seed ?? undefined);
+  }
+  linkQueue.markComplete();
+
+  try {
+    await scrapeBookDetails(createSiteAdapter(config), fetcher, storageService, logger, linkQueue, { deadLetterStore });
+  } finally {
+    await storageService.close();
+  }
+
+  const stillFailing = deadLetterStore.getRecords().length;
+  const result = { recovered: records.length - stillFailing, stillFailing };
+  logger.info('Retry of failed URLs completed', result);
+  return result;
+};
@@ -0,0 +1,85 @@
+import { CheckpointService } from './services/checkpoint.js';
+import { DeadLetterStore } from './services/deadLetter.js';
+import { createOutputSink } from './services/sinks/index.js';
+import { Logger, RunStats, ScraperConfig } from './types.js';
+
+/**
+ * Counts occurrences of each key
+ */
+const countBy = <T>(items: T[], key: (item: T) => string): Record<string, number> =>
+  items.reduce<Record<string, number>>((counts, item) => {
+    counts[key(item)] = (counts[key(item)] ?? 0) + 1;
+    return counts;
+  }, {});
+
+/**
+ * Summarizes the configured output, checkpoint and dead-letter files without changing them
+ */
+export const collectRunStats = async (config: ScraperConfig, logger: Logger): Promise<RunStats> => {
+  const sink = createOutputSink(config, logger);
+  const books = await sink.readAll();
+  await sink.close();
+
+  const checkpoint = await new CheckpointService(config.files.checkpoint, logger).load();
+  const failures = await new DeadLetterStore(config.files.deadLetter, logger).load();
+
+  return {
+    output: {
+      file: config.files.output,
+      format: config.files.outputFormat,
+      books: books.length,
+      authors: new Set(books.map(book => book.authorKey)).size,
+      withRecommendations: books.filter(book => book.recommendationsCount > 0).length,
+      recommendations: books.reduce((sum, book) => sum + book.recommendationsCount, 0),
+      bySeed: countBy(books, book => book.seed ?? 'none'),
+    },
+    checkpoint: checkpoint && {
+      file: config.files.checkpoint,
+      lastUpdatedAt: checkpoint.lastUpdatedAt,
+      pending: checkpoint.pendingLinks.length + checkpoint.inFlightLinks.length,
+      completed: checkpoint.completedLinks.length,
+      failed: checkpoint.failedLinks.length,
+      linksComplete: checkpoint.linksComplete,
+    },
+    deadLetter: {
+      file: config.files.deadLetter,
+      failed: failures.length,
+      byErrorType: countBy(failures, record => record.errorType),
+    },
+  };
+};
+
+/**
+ * Renders run statistics as plain text
+ */
+export const renderRunStats = (stats: RunStats): string => {
+  const counts = (byKey: Record<string, number>) =>
+    Object.entries(byKey).map(([key, count]) => `${key} ${count}`).join(', ');
+  const { output, checkpoint, deadLetter } = stats;
+
+  const lines = [
+    `Output: ${output.file} (${output.format})`,
+    `  Books: ${output.books}`,
+    `  Authors: ${output.authors}`,
+    `  With recommendations: ${output.withRecommendations}`,
+    `  Recommendations: ${output.recommendations}`,
+  ];
+  if (output.books > 0) {
+    lines.push(`  By seed: ${counts(output.bySeed)}`);
+  }
+
+  lines.push(`Checkpoint: ${checkpoint ? checkpoint.file : 'none'}`);
+  if (checkpoint) {
+    lines.push(
+      `  Last updated: ${checkpoint.lastUpdatedAt.toISOString()}`,
+      `  Links: ${checkpoint.pending} pending, ${checkpoint.completed} completed, ${checkpoint.failed} failed`,
+      `  Link collection: ${checkpoint.linksComplete ? 'complete' : 'unfinished'}`
+    );
+  }
+
+  lines.push(`Dead letter: ${deadLetter.file}`, `  Failed URLs: ${deadLetter.failed}`);
+  if (deadLetter.failed > 0) {
+    lines.push(`  By error: ${counts(deadLetter.byErrorType)}`);
+  }
+  return lines.join('\n');
+};
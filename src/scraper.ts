@@ -0,0 +1,247 @@
+import { EventEmitter } from 'events';
+import { getConfig, loadConfig } from './config.js';
+import { scrapeBookLinks } from './linkScraper.js';
+import { scrapeBookDetails } from './detailsScraper.js';
+import { createFetchControls, createFetcher } from './services/fetcher.js';
+import { StorageService } from './services/storage.js';
+import { createOutputSink } from './services/sinks/index.js';
+import { createLogger } from './logger.js';
+import { BookDetails, ConfigLayer, CrawlResult, Logger, PageFetcher, ScraperConfig, ScraperEventMap } from './types.js';
+import { LinkQueue } from './services/linkQueue.js';
+import { CheckpointService } from './services/checkpoint.js';
+import { DeadLetterStore } from './services/deadLetter.js';
+import { RunControl } from './services/runControl.js';
+import { createSiteAdapter } from './adapters/index.js';
+import { MetricsFetcher, MetricsServer, ScraperMetrics } from './services/metrics.js';
+
+/**
+ * How a Scraper is set up; configuration is layered exactly as for the command line
+ */
+export interface ScraperOptions {
+  resume?: boolean;  // Continue from the last checkpoint instead of starting over
+  configFile?: string | null;
+  profile?: string | null;
+  config?: ConfigLayer;  // Overrides on top of the environment and config file, like command-line flags
+  logger?: Logger;  // Defaults to a logger with a fresh run id
+}
+
+/**
+ * Handles graceful shutdown of services
+ */
+const cleanup = async (
+  linkFetcher: PageFetcher,
+  detailsFetcher: PageFetcher,
+  storage: StorageService,
+  checkpoint: CheckpointService,
+  linkQueue: LinkQueue,
+  logger: Logger,
+  metricsServer: MetricsServer | null
+): Promise<void> => {
+  logger.info('Shutting down services...');
+
+  try {
+    // Persist crawl state before the browsers go away underneath in-flight pages
+    checkpoint.stopAutoSave();
+    await storage.flush();
+    await checkpoint.save(linkQueue);
+
+    await Promise.all([
+      linkFetcher.close(),
+      detailsFetcher.close(),
+      storage.close(),
+      metricsServer?.stop()
+    ]);
+    logger.info('Services shut down successfully');
+  } catch (error) {
+    logger.error('Error during cleanup', error as Error);
+    throw error;
+  }
+};
+
+/**
+ * A crawl that collects links and scrapes details in parallel, for use as a library
+ * Books are written to the configured output as usual, and are also announced as events and through async iteration
+ * Configuration is process-wide, so one process runs one configuration at a time
+ */
+export class Scraper extends EventEmitter<ScraperEventMap> {
+  readonly config: ScraperConfig;
+  private logger: Logger;
+  private control = new RunControl();
+  private run: Promise<CrawlResult> | null = null;
+
+  constructor(private options: ScraperOptions = {}) {
+    super();
+    const { configFile, profile, config } = options;
+    this.config = configFile !== undefined || profile !== undefined || config !== undefined
+      ? loadConfig({ file: configFile, profile, overrides: config })
+      : getConfig();
+    this.logger = options.logger ?? createLogger(this.config);
+  }
+
+  get paused(): boolean {
+    return this.control.paused;
+  }
+
+  /**
+   * Runs the crawl
+   * @returns Resolves once both phases have finished or been stopped, with output flushed and the checkpoint saved
+   */
+  start(): Promise<CrawlResult> {
+    if (this.run) {
+      throw new Error('This scraper has already been started');
+    }
+    this.run = this.crawl().catch(error => {
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', { url: null, error: error as Error });
+      }
+      throw error;
+    });
+    return this.run;
+  }
+
+  /**
+   * Holds both phases between rounds; pages already being fetched still finish
+   */
+  pause(): void {
+    this.control.pause();
+  }
+
+  resume(): void {
+    this.control.resume();
+  }
+
+  /**
+   * Stops taking new pages, then aborts the pages still in flight once the grace period is over
+   * Output is flushed and the checkpoint saved, so the crawl can be resumed later
+   * @param graceMs - Time in-flight pages get to finish; defaults to shutdown.graceMs, and 0 aborts them at once
+   */
+  async stop(graceMs = this.config.shutdown.graceMs): Promise<void> {
+    this.control.stop(graceMs);
+    await this.run?.catch(() => undefined);
+  }
+
+  /**
+   * Yields books as they are saved, until the run ends; a failed run rethrows its error
+   * Starts the run when it has not been started yet
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<BookDetails> {
+    const books: BookDetails[] = [];
+    let wake: () => void = () => undefined;
+    const onBook = (book: BookDetails) => {
+      books.push(book);
+      wake();
+    };
+    this.on('book:scraped', onBook);
+
+    let finished = false;
+    let failure: unknown = null;
+    const run = (this.run ?? this.start()).then(
+      () => undefined,
+      error => {
+        failure = error;
+      }
+    ).finally(() => {
+      finished = true;
+      wake();
+    });
+
+    try {
+      while (true) {
+        if (books.length > 0) {
+          yield books.shift()!;
+        } else if (finished) {
+          break;
+        } else {
+          await new Promise<void>(resolve => {
+            wake = resolve;
+          });
+        }
+      }
+      await run;
+      if (failure) {
+        throw failure;
+      }
+    } finally {
+      this.off('book:scraped', onBook);
+    }
+  }
+
+  private async crawl(): Promise<CrawlResult> {
+    const { config, logger, control } = this;
+    const resume = this.options.resume ?? false;
+    control.signal.addEventListener('abort', () => logger.warn('Aborting pages in flight'), { once: true });
+    let linkFetcher: PageFetcher | null = null;
+    let detailsFetcher: PageFetcher | null = null;
+    let storageService: StorageService | null = null;
+    const linkQueue = new LinkQueue(logger);
+    const checkpointService = new CheckpointService(config.files.checkpoint, logger);
+    const deadLetterStore = new DeadLetterStore(config.files.deadLetter, logger);
+    const metrics = new ScraperMetrics();
+    const metricsServer = config.metrics.port !== null ? new MetricsServer(metrics, config, logger) : null;
+
+    try {
+      logger.info('Starting parallel scraping process...', { resume, site: config.base.site });
+
+      const adapter = createSiteAdapter(config);
+
+      // Create separate fetchers for links and details, each with its configured backend
+      // Both share robots.txt and throttling, so Crawl-delay and back-off count requests from either phase
+      const controls = createFetchControls(config, logger);
+      linkFetcher = new MetricsFetcher(
+        createFetcher(config.scraping.fetchers.links, config, logger, controls),
+        metrics,
+        'links'
+      );
+      detailsFetcher = new MetricsFetcher(
+        createFetcher(config.scraping.fetchers.details, config, logger, controls),
+        metrics,
+        'details'
+      );
+      const storage = new StorageService(logger, createOutputSink(config, logger));
+      storageService = storage;
+
+      // Keep earlier failures so the dead-letter file only shrinks when they succeed
+      await deadLetterStore.load();
+
+      if (resume && !await checkpointService.restoreQueue(linkQueue, since => storage.readUrlsSeenSince(since))) {
+        logger.warn('No checkpoint found. Starting a fresh crawl.', { filePath: config.files.checkpoint });
+      }
+
+      metrics.watchQueue(linkQueue);
+      metrics.watchThrottle(() => controls.throttle.getStats());
+      await metricsServer?.start();
+
+      checkpointService.startAutoSave(linkQueue, config.checkpoint.intervalMs, () => storage.flush());
+
+      // Run both scrapers in parallel; a failed phase cancels the other, and both settle before cleanup closes their services
+      const phases = await Promise.allSettled([
+        scrapeBookLinks(adapter, linkFetcher, logger, linkQueue, { metrics, events: this, control }),
+        scrapeBookDetails(adapter, detailsFetcher, storage, logger, linkQueue, { deadLetterStore, metrics, events: this, control })
+      ].map(phase => phase.catch(error => {
+        control.cancel();
+        throw error;
+      })));
+      const failure = phases.find((phase): phase is PromiseRejectedResult => phase.status === 'rejected');
+      if (failure) {
+        throw failure.reason;
+      }
+
+      const { processed, failed, pending, inFlight, linksComplete } = linkQueue.getProgress('details');
+      const result = { complete: linksComplete && pending + inFlight === 0, processed, failed, pending: pending + inFlight };
+      if (result.complete) {
+        logger.info('Parallel scraping process completed successfully', result);
+      } else {
+        logger.warn('Parallel scraping process stopped before it was complete; resume it from the checkpoint', result);
+      }
+      return result;
+    } catch (error) {
+      logger.error('Scraping process failed', error as Error);
+      throw error;
+    } finally {
+      // Ensure cleanup happens even if there's an error
+      if (linkFetcher && detailsFetcher && storageService) {
+        await cleanup(linkFetcher, detailsFetcher, storageService, checkpointService, linkQueue, logger, metricsServer);
+      }
+    }
+  }
+}
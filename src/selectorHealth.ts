@@ -0,0 +1,278 @@
+import cheerio from 'cheerio';
+import {
+  HealthSeverity,
+  Logger,
+  PageFetcher,
+  ParseError,
+  SelectorCheck,
+  SelectorHealthReport,
+  SiteAdapter,
+  SiteSelectors
+} from './types.js';
+
+/**
+ * How a selector is checked
+ * - required: must match on every sampled page of its type, or the check fails
+ * - expected: should match on at least one sampled page, or a warning is raised
+ * - optional: may never match, e.g. an override with a fallback
+ */
+interface SelectorRule {
+  pageType: SelectorCheck['pageType'];
+  importance: 'required' | 'expected' | 'optional';
+  scope?: 'recommendations' | 'entry';  // Evaluated inside the recommendations container or each entry
+  attribute?: 'href' | 'src';  // Checked for emptiness instead of the text
+}
+
+const SELECTOR_RULES: Record<keyof SiteSelectors, SelectorRule> = {
+  bookLinks: { pageType: 'listing', importance: 'required', attribute: 'href' },
+  pagination: { pageType: 'listing', importance: 'expected' },
+  nextPage: { pageType: 'listing', importance: 'optional', attribute: 'href' },
+  bookTitle: { pageType: 'book', importance: 'required' },
+  bookAuthor: { pageType: 'book', importance: 'required' },
+  recommendations: { pageType: 'book', importance: 'required' },
+  recommendationEntry: { pageType: 'book', importance: 'expected', scope: 'recommendations' },
+  recommendationReviewer: { pageType: 'book', importance: 'expected', scope: 'entry' },
+  recommendationDate: { pageType: 'book', importance: 'expected', scope: 'entry' },
+  recommendationText: { pageType: 'book', importance: 'expected', scope: 'entry' },
+  bookIsbn: { pageType: 'book', importance: 'expected' },
+  bookPublisher: { pageType: 'book', importance: 'expected' },
+  bookYear: { pageType: 'book', importance: 'expected' },
+  bookPages: { pageType: 'book', importance: 'expected' },
+  bookListPrice: { pageType: 'book', importance: 'expected' },
+  bookPrice: { pageType: 'book', importance: 'expected' },
+  bookAvailability: { pageType: 'book', importance: 'expected' },
+  bookCategories: { pageType: 'book', importance: 'expected' },
+  bookCover: { pageType: 'book', importance: 'expected', attribute: 'src' },
+};
+
+/**
+ * Counts a selector's matches on one page, and how many of them are empty
+ */
+const countMatches = (
+  $: ReturnType<typeof cheerio.load>,
+  selectors: SiteSelectors,
+  name: keyof SiteSelectors
+): { matches: number; empty: number } => {
+  const rule = SELECTOR_RULES[name];
+  const container = $(selectors.recommendations).first();
+  const scope = rule.scope === 'recommendations'
+    ? container
+    : rule.scope === 'entry'
+      ? container.find(selectors.recommendationEntry)
+      : null;
+
+  const elements = (scope ? scope.find(selectors[name]) : $(selectors[name])).toArray();
+  const empty = elements.filter(elem => {
+    const value = rule.attribute ? $(elem).attr(rule.attribute) : $(elem).text();
+    return !value?.trim();
+  }).length;
+
+  return { matches: elements.length, empty };
+};
+
+/**
+ * Grades a selector's statistics against its rule
+ */
+const grade = (check: Omit<SelectorCheck, 'severity' | 'message'>): Pick<SelectorCheck, 'severity' | 'message'> => {
+  const { importance, scope } = SELECTOR_RULES[check.name];
+  const missing: HealthSeverity = importance === 'required' ? 'error' : 'warning';
+
+  if (check.pagesChecked === 0) {
+    return { severity: 'warning', message: `No ${check.pageType} pages could be checked` };
+  }
+  if (importance === 'optional' && check.matches === 0) {
+    return { severity: 'ok', message: 'Never matched; the fallback is used' };
+  }
+  if (importance === 'required' && check.pagesMatched < check.pagesChecked) {
+    return {
+      severity: 'error',
+      message: `Missing on ${check.pagesChecked - check.pagesMatched} of ${check.pagesChecked} pages`
+    };
+  }
+  if (check.matches === 0) {
+    // Entries legitimately vanish when no sampled book has recommendations; that case is its own finding
+    return { severity: scope ? 'warning' : missing, message: 'Matched nothing on any sampled page' };
+  }
+  if (check.emptyMatches === check.matches) {
+    return { severity: missing, message: 'Every match is empty' };
+  }
+  if (check.emptyMatches > 0) {
+    return { severity: 'warning', message: `${check.emptyMatches} of ${check.matches} matches are empty` };
+  }
+  return { severity: 'ok', message: null };
+};
+
+/**
+ * Fetches a page, recording a finding instead of failing the whole check
+ */
+const fetchPage = async (
+  fetcher: PageFetcher,
+  url: string,
+  findings: SelectorHealthReport['findings'],
+  waitForSelectors?: string[]
+): Promise<string | null> => {
+  try {
+    return (await fetcher.fetch(url, { waitForSelectors })).body;
+  } catch (error) {
+    findings.push({ severity: 'error', message: `Could not fetch ${url}: ${(error as Error).message}` });
+    return null;
+  }
+};
+
+/**
+ * Picks up to count items spread evenly over a list
+ */
+const spread = <T>(items: T[], count: number): T[] => {
+  if (items.length <= count) {
+    return items;
+  }
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * step)]);
+};
+
+/**
+ * Checks every selector of a site adapter against the first listing page of each seed
+ * and a sample of the book pages they link to
+ * @param bookSampleSize - Number of book pages to check
+ */
+export const checkSelectors = async (
+  adapter: SiteAdapter,
+  listingFetcher: PageFetcher,
+  bookFetcher: PageFetcher,
+  seeds: string[],
+  bookSampleSize: number,
+  logger: Logger
+): Promise<SelectorHealthReport> => {
+  const { selectors } = adapter;
+  if (!selectors) {
+    throw new Error(`Site adapter "${adapter.name}" has no selectors to check`);
+  }
+
+  const findings: SelectorHealthReport['findings'] = [];
+  const names = Object.keys(SELECTOR_RULES) as (keyof SiteSelectors)[];
+  const stats = new Map(names.map(name => [name, { pagesChecked: 0, pagesMatched: 0, matches: 0, emptyMatches: 0 }]));
+
+  const inspect = (html: string, pageType: SelectorCheck['pageType']) => {
+    const $ = cheerio.load(html);
+    for (const name of names.filter(name => SELECTOR_RULES[name].pageType === pageType)) {
+      const { matches, empty } = countMatches($, selectors, name);
+      const entry = stats.get(name)!;
+      entry.pagesChecked++;
+      entry.pagesMatched += matches > 0 ? 1 : 0;
+      entry.matches += matches;
+      entry.emptyMatches += empty;
+    }
+  };
+
+  const listingPages: string[] = [];
+  const bookPages: string[] = [];
+  const links: string[] = [];
+
+  try {
+    await listingFetcher.initialize();
+    for (const seed of seeds) {
+      const url = adapter.seedUrl(seed);
+      const html = await fetchPage(listingFetcher, url, findings);
+      if (html === null) {
+        continue;
+      }
+      listingPages.push(url);
+      inspect(html, 'listing');
+
+      const { links: pageLinks, pagination } = adapter.extractListing(html, url);
+      links.push(...pageLinks);
+      if (pagination.nextUrl === null && (pagination.totalPages ?? 1) > 1) {
+        findings.push({
+          severity: 'error',
+          message: `The pager on ${url} shows ${pagination.totalPages} pages but no next page was found`
+        });
+      }
+    }
+  } finally {
+    await listingFetcher.close();
+  }
+
+  let parsed = 0;
+  let zeroRecommendations = 0;
+  const parseFailures: string[] = [];
+
+  try {
+    await bookFetcher.initialize();
+    for (const url of spread([...new Set(links)], bookSampleSize)) {
+      const html = await fetchPage(bookFetcher, url, findings, adapter.readySelectors);
+      if (html === null) {
+        continue;
+      }
+      bookPages.push(url);
+      inspect(html, 'book');
+
+      try {
+        const details = adapter.extractBookDetails(html, url, true);
+        parsed++;
+        zeroRecommendations += details.recommendationsCount === 0 ? 1 : 0;
+      } catch (error) {
+        if (!(error instanceof ParseError)) {
+          throw error;
+        }
+        parseFailures.push(url);
+      }
+    }
+  } finally {
+    await bookFetcher.close();
+  }
+
+  if (parsed > 0 && zeroRecommendations === parsed) {
+    findings.push({
+      severity: 'error',
+      message: `Every sampled book (${parsed}) shows zero recommendations`
+    });
+  }
+  if (parseFailures.length > 0) {
+    findings.push({
+      severity: parseFailures.length === bookPages.length ? 'error' : 'warning',
+      message: `${parseFailures.length} of ${bookPages.length} book pages failed to parse: ${parseFailures.join(', ')}`
+    });
+  }
+
+  const checks: SelectorCheck[] = names.map(name => {
+    const check = { name, selector: selectors[name], pageType: SELECTOR_RULES[name].pageType, ...stats.get(name)! };
+    return { ...check, ...grade(check) };
+  });
+
+  const healthy = !checks.some(check => check.severity === 'error') &&
+    !findings.some(finding => finding.severity === 'error');
+  logger.info('Selector health check completed', {
+    site: adapter.name,
+    listingPages: listingPages.length,
+    bookPages: bookPages.length,
+    healthy
+  });
+
+  return { site: adapter.name, checkedAt: new Date(), listingPages, bookPages, checks, findings, healthy };
+};
+
+/**
+ * Renders a health report as a plain-text table
+ */
+export const renderHealthReport = (report: SelectorHealthReport): string => {
+  const label = (severity: HealthSeverity) => severity.toUpperCase().padEnd(7);
+  const width = Math.max(...report.checks.map(check => check.name.length));
+
+  const lines = [
+    `Selector health check for ${report.site} ` +
+      `(${report.listingPages.length} listing pages, ${report.bookPages.length} book pages)`,
+    '',
+    ...report.checks.map(check =>
+      `${label(check.severity)} ${check.name.padEnd(width)}  ` +
+      `${check.matches} matches on ${check.pagesMatched}/${check.pagesChecked} pages` +
+      (check.message ? `  ${check.message}` : '') +
+      `  [${check.selector}]`
+    ),
+  ];
+
+  if (report.findings.length > 0) {
+    lines.push('', ...report.findings.map(finding => `${label(finding.severity)} ${finding.message}`));
+  }
+  lines.push('', report.healthy ? 'Result: HEALTHY' : 'Result: DRIFT DETECTED');
+  return lines.join('\n');
+};
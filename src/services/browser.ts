@@ -1,30 +1,53 @@
-import puppeteer, { Browser, Page } from 'puppeteer';
-import { ScraperConfig, Logger } from '../types.js';
+import puppeteer, { Browser, BrowserContext, HTTPResponse, Page } from 'puppeteer';
+import { ScraperConfig, Logger, FetchedPage, FetchOptions, PageFetcher, ThrottleStats, BrowserIdentity } from '../types.js';
 import pLimit from 'p-limit';
-import { RateLimiter } from 'limiter';
+import { delay } from '../utils.js';
+import { parseRetryAfter, ThrottleController } from './throttle.js';
+import { IdentityRotator, ProxyEndpoint, ProxyPool } from './rotation.js';
+
+/**
+ * A browser context and the proxy and identity its pages present
+ */
+interface BrowserSession {
+  context: BrowserContext;
+  proxy: ProxyEndpoint | null;
+  identity: BrowserIdentity | null;
+  requests: number;  // Pages handed out so far
+  openPages: number;  // Pages currently in use
+  idlePages: Page[];
+  retired: boolean;  // No longer handed out; closed once its last page is released
+}
+
+// Statuses a proxy answers with when it cannot reach the site or refuses our credentials
+const PROXY_FAILURE_STATUSES = [407, 502];
 
 /**
  * Service for managing browser operations with rate limiting and concurrency control
+ * Pages are opened in browser contexts that each use one proxy and identity,
+ * moving on to the next pair every few requests when rotation is configured
  */
-export class BrowserService {
+export class BrowserService implements PageFetcher {
   private browser: Browser | null = null;
-  private limiter: RateLimiter;
   private concurrencyLimit: (fn: () => Promise<any>) => Promise<any>;
-  private pagePool: Page[] = [];
+  private session: BrowserSession | null = null;
+  private openingSession: Promise<BrowserSession> | null = null;
+  private retiredSessions = new Set<BrowserSession>();
+  private identities: IdentityRotator;
   private readonly PAGE_POOL_SIZE = 20; // Increased pool size for better concurrency
 
   constructor(
     private config: ScraperConfig,
-    private logger: Logger
+    private logger: Logger,
+    private throttle: ThrottleController = new ThrottleController(config, logger),
+    private proxies: ProxyPool = new ProxyPool(
+      config.scraping.rotation.proxies,
+      config.scraping.rotation.maxProxyFailures,
+      logger
+    )
   ) {
-    // Initialize rate limiter (requests per minute)
-    this.limiter = new RateLimiter({
-      tokensPerInterval: config.scraping.rateLimitPerMinute,
-      interval: 'minute'
-    });
-
     // Initialize concurrency limiter
     this.concurrencyLimit = pLimit(config.scraping.maxConcurrent);
+    this.identities = new IdentityRotator(config.scraping.rotation.identities);
   }
 
   /**
@@ -62,87 +85,194 @@ export class BrowserService {
         ]
       });
 
-      // Pre-warm the page pool
-      await Promise.all(
-        Array(this.PAGE_POOL_SIZE).fill(null).map(async () => {
-          const page = await this.getPage();
-          this.pagePool.push(page);
-        })
+      // Pre-warm the page pool of the first session
+      const session = await this.getSession();
+      const pages = await Promise.all(
+        Array(this.PAGE_POOL_SIZE).fill(null).map(() => this.openPage(session))
       );
+      session.idlePages.push(...pages);
 
       this.logger.info('Browser initialized with optimized settings and pre-warmed pool', {
         headless: this.config.scraping.headless,
-        poolSize: this.PAGE_POOL_SIZE
+        poolSize: this.PAGE_POOL_SIZE,
+        proxies: this.proxies.getStatus().length,
+        identities: this.config.scraping.rotation.identities.length,
+        rotateEvery: this.config.scraping.rotation.rotateEvery
+      });
+    }
+  }
+
+  /**
+   * Gets the session new pages should use, opening the next one when the current one is used up or retired
+   */
+  private async getSession(): Promise<BrowserSession> {
+    const { rotateEvery } = this.config.scraping.rotation;
+    const current = this.session;
+    if (current && !current.retired && (rotateEvery === 0 || current.requests < rotateEvery)) {
+      return current;
+    }
+    if (current) {
+      this.retireSession(current);
+    }
+
+    // Concurrent callers share one new session rather than each opening their own
+    if (!this.openingSession) {
+      this.openingSession = this.openSession().finally(() => {
+        this.openingSession = null;
       });
     }
+    return this.openingSession;
   }
 
   /**
-   * Gets or creates a page with optimized settings
+   * Opens a browser context with the next proxy and identity
    */
-  private async getPage(): Promise<Page> {
+  private async openSession(): Promise<BrowserSession> {
     if (!this.browser) {
       throw new Error('Browser not initialized');
     }
 
-    // Try to get a page from the pool
-    let page = this.pagePool.pop();
-    
-    if (!page || page.isClosed()) {
-      page = await this.browser.newPage();
-      
-      // Optimize page settings
-      await Promise.all([
-        page.setDefaultNavigationTimeout(this.config.scraping.timeout),
-        page.setRequestInterception(true),
-        page.setJavaScriptEnabled(true),
-        page.setCacheEnabled(true),
-        // Optimize memory usage
-        page.setViewport({ width: 800, height: 600 }),
-        // Reduce memory usage by limiting cache
-        page.setCacheEnabled(true),
-        // Disable features we don't need
-        page.evaluateOnNewDocument(() => {
-          // Disable analytics, tracking, and unnecessary features
-          (window as any).ga = undefined;
-          (window as any).analytics = undefined;
-          (window as any)._gaq = undefined;
-          (window as any).dataLayer = undefined;
-        })
-      ]);
-
-      // Block unnecessary resources
-      page.on('request', request => {
-        const resourceType = request.resourceType();
-        if (['image', 'stylesheet', 'font', 'media'].includes(resourceType)) {
-          request.abort();
-        } else {
-          request.continue();
-        }
-      });
+    const proxy = this.proxies.next();
+    const identity = this.identities.next();
+    const context = await this.browser.createIncognitoBrowserContext(
+      // Loopback addresses bypass proxies by default; crawls never target them outside tests
+      proxy ? { proxyServer: proxy.server, proxyBypassList: ['<-loopback>'] } : {}
+    );
 
-      // Log console messages
-      page.on('console', msg => {
-        this.logger.debug('Browser console:', {
-          type: msg.type(),
-          text: msg.text()
-        });
+    const session: BrowserSession = {
+      context,
+      proxy,
+      identity,
+      requests: 0,
+      openPages: 0,
+      idlePages: [],
+      retired: false
+    };
+    this.session = session;
+
+    this.logger.info('Opened browser context', {
+      proxy: proxy?.url ?? 'direct',
+      userAgent: identity?.userAgent ?? 'default'
+    });
+    return session;
+  }
+
+  /**
+   * Stops handing out a session; it is closed once its last page is released
+   */
+  private retireSession(session: BrowserSession): void {
+    if (this.session === session) {
+      this.session = null;
+    }
+    if (session.retired) {
+      return;
+    }
+    session.retired = true;
+    this.retiredSessions.add(session);
+    if (session.openPages === 0) {
+      this.closeSession(session).catch(error => {
+        this.logger.warn('Failed to close browser context', { error });
       });
     }
+  }
+
+  private async closeSession(session: BrowserSession): Promise<void> {
+    this.retiredSessions.delete(session);
+    session.idlePages = [];
+    await session.context.close();
+  }
+
+  /**
+   * Opens a page in a session with optimized settings and the session's identity
+   */
+  private async openPage(session: BrowserSession): Promise<Page> {
+    const page = await session.context.newPage();
+    const { identity, proxy } = session;
+
+    // Optimize page settings
+    await Promise.all([
+      page.setDefaultNavigationTimeout(this.config.scraping.timeout),
+      page.setRequestInterception(true),
+      page.setJavaScriptEnabled(true),
+      page.setCacheEnabled(true),
+      // Optimize memory usage
+      page.setViewport(identity?.viewport ?? { width: 800, height: 600 }),
+      // Present the session's identity
+      identity ? page.setUserAgent(identity.userAgent) : Promise.resolve(),
+      identity ? page.setExtraHTTPHeaders({ 'Accept-Language': identity.acceptLanguage }) : Promise.resolve(),
+      // Answer the proxy's authentication challenges
+      proxy?.credentials ? page.authenticate(proxy.credentials) : Promise.resolve(),
+      // Disable features we don't need
+      page.evaluateOnNewDocument(() => {
+        // Disable analytics, tracking, and unnecessary features
+        (window as any).ga = undefined;
+        (window as any).analytics = undefined;
+        (window as any)._gaq = undefined;
+        (window as any).dataLayer = undefined;
+      })
+    ]);
+
+    // Block unnecessary resources
+    page.on('request', request => {
+      const resourceType = request.resourceType();
+      if (['image', 'stylesheet', 'font', 'media'].includes(resourceType)) {
+        request.abort();
+      } else {
+        request.continue();
+      }
+    });
+
+    // Log console messages
+    page.on('console', msg => {
+      this.logger.debug('Browser console:', {
+        type: msg.type(),
+        text: msg.text()
+      });
+    });
 
     return page;
   }
 
   /**
-   * Returns a page to the pool or closes it if pool is full
+   * Gets a pooled page from the current session, or opens one
+   */
+  private async getPage(): Promise<{ page: Page; session: BrowserSession }> {
+    const session = await this.getSession();
+    session.requests++;
+    session.openPages++;
+
+    try {
+      let page = session.idlePages.pop();
+      if (!page || page.isClosed()) {
+        page = await this.openPage(session);
+      }
+      return { page, session };
+    } catch (error) {
+      session.openPages--;
+      throw error;
+    }
+  }
+
+  /**
+   * Returns a page to its session's pool, or closes it if the pool is full or the session retired
    */
-  private async releasePage(page: Page): Promise<void> {
+  private async releasePage(page: Page, session: BrowserSession): Promise<void> {
+    session.openPages--;
+    if (session.retired) {
+      if (session.openPages === 0 && this.retiredSessions.has(session)) {
+        await this.closeSession(session);
+      } else if (!page.isClosed()) {
+        await page.close();
+      }
+      return;
+    }
+
     if (!page.isClosed()) {
-      if (this.pagePool.length < this.PAGE_POOL_SIZE) {
+      if (session.idlePages.length < this.PAGE_POOL_SIZE) {
         try {
           // Simplified cleanup - just clear navigation
           await page.evaluate(() => window.stop());
-          this.pagePool.push(page);
+          session.idlePages.push(page);
         } catch (error) {
           await page.close();
         }
@@ -153,33 +283,88 @@ export class BrowserService {
   }
 
   /**
-   * Navigates to a URL with rate limiting and retries
+   * Counts a navigation's outcome against the session's proxy, retiring the session with a failing proxy
+   */
+  private recordProxyOutcome(session: BrowserSession, failure: string | null): void {
+    if (!session.proxy) {
+      return;
+    }
+    if (failure === null) {
+      this.proxies.recordSuccess(session.proxy);
+    } else if (this.proxies.recordFailure(session.proxy, failure)) {
+      this.retireSession(session);
+    }
+  }
+
+  /**
+   * Navigates to a URL with throttling and retries
+   * Server errors and throttling responses are retried like network failures, after feeding the throttle
+   * Gives up early when the session's proxy is taken out of rotation, so the caller's retry gets a fresh session
+   * An aborted signal closes the page to cut a navigation short; the page is not returned to the pool
    */
-  private async navigateToUrl(page: Page, url: string): Promise<void> {
+  private async navigateToUrl(
+    page: Page,
+    session: BrowserSession,
+    url: string,
+    signal?: AbortSignal
+  ): Promise<HTTPResponse | null> {
     const maxRetries = this.config.scraping.maxRetries ?? 3;
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      signal?.throwIfAborted();
+      let retryAfterMs: number | null = null;
       try {
-        // Wait for rate limit token
-        await this.limiter.removeTokens(1);
-        
-        // Check if page is still valid
-        if (page.isClosed()) {
-          throw new Error('Page was closed before navigation');
+        // Wait for the throttle to allow another request
+        const release = await this.throttle.acquire(signal);
+        const closeOnAbort = () => {
+          page.close().catch(() => undefined);
+        };
+        signal?.addEventListener('abort', closeOnAbort, { once: true });
+        let response: HTTPResponse | null;
+        try {
+          // Check if page is still valid
+          if (page.isClosed()) {
+            throw new Error('Page was closed before navigation');
+          }
+
+          response = await page.goto(url, {
+            waitUntil: this.config.scraping.waitUntil,
+            timeout: this.config.scraping.timeout
+          }).catch(error => {
+            // A navigation we cut short says nothing about the proxy
+            if (!signal?.aborted) {
+              this.recordProxyOutcome(session, (error as Error).message);
+            }
+            throw error;
+          });
+        } finally {
+          signal?.removeEventListener('abort', closeOnAbort);
+          release();
         }
-        
-        await page.goto(url, {
-          waitUntil: 'domcontentloaded', // Less strict than networkidle0
-          timeout: this.config.scraping.timeout
-        });
-        return; // Success, exit retry loop
+
+        const status = response?.status() ?? 0;
+        const retryAfter = response?.headers()['retry-after'];
+        this.recordProxyOutcome(session, PROXY_FAILURE_STATUSES.includes(status) ? `HTTP ${status}` : null);
+        this.throttle.recordResponse(url, status, retryAfter);
+        if (status === 429 || status >= 500) {
+          retryAfterMs = parseRetryAfter(retryAfter);
+          throw new Error(`HTTP ${status}`);
+        }
+        return response; // Success, exit retry loop
       } catch (error) {
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
         lastError = error as Error;
+        if (session.retired && session.proxy && this.proxies.isRetired(session.proxy)) {
+          break;
+        }
         if (attempt < maxRetries) {
-          const delay = Math.min(1000 * Math.pow(2, attempt), 10000);
-          this.logger.warn(`Attempt ${attempt} failed: ${url}. Retrying in ${delay}ms...`, { error });
-          await new Promise(resolve => setTimeout(resolve, delay));
+          // A Retry-After pause is enforced by the throttle on the next acquire
+          const delayMs = Math.min(1000 * Math.pow(2, attempt), 10000);
+          this.logger.warn(`Attempt ${attempt} failed: ${url}. Retrying in ${delayMs}ms...`, { url, error, retryAfterMs });
+          await delay(delayMs, signal);
         }
       }
     }
@@ -187,31 +372,63 @@ export class BrowserService {
     throw lastError;
   }
 
+  /**
+   * Fetches a page and returns its rendered HTML
+   */
+  async fetch(url: string, options: FetchOptions = {}): Promise<FetchedPage> {
+    return this.executeOperation(async (page: Page, response: HTTPResponse | null) => {
+      if (options.waitForSelectors?.length) {
+        // Wait for all critical elements in parallel with reduced timeout
+        await Promise.all(
+          options.waitForSelectors.map(selector => page.waitForSelector(selector, { timeout: 3000 }))
+        ).catch(error => {
+          // If selectors don't appear, page might still be usable
+          // Let the parser handle any missing elements; npm run check:selectors reports drift
+          this.logger.debug('Waited selectors did not appear', { url, error: (error as Error).message });
+        });
+      }
+
+      return {
+        url,
+        status: response?.status() ?? 0,
+        headers: response?.headers() ?? {},
+        body: await page.content()
+      };
+    }, url, options.signal);
+  }
+
+  getThrottleStats(): ThrottleStats {
+    return this.throttle.getStats();
+  }
+
   /**
    * Executes a page operation with concurrency control and proper cleanup
+   * The operation receives the navigation response when a URL is given
+   * @param signal - Once aborted, queued operations never lease a page and navigation is cut short
    */
   async executeOperation<T>(
-    operation: (page: Page) => Promise<T>,
-    url?: string
+    operation: (page: Page, response: HTTPResponse | null) => Promise<T>,
+    url?: string,
+    signal?: AbortSignal
   ): Promise<T> {
     return this.concurrencyLimit(async () => {
-      let page: Page | null = null;
+      let leased: { page: Page; session: BrowserSession } | null = null;
       
       try {
-        page = await this.getPage();
-        
-        if (url) {
-          await this.navigateToUrl(page, url);
-        }
+        signal?.throwIfAborted();
+        leased = await this.getPage();
+        const { page, session } = leased;
+        const response = url ? await this.navigateToUrl(page, session, url, signal) : null;
         
-        const result = await operation(page);
+        signal?.throwIfAborted();
+        const result = await operation(page, response);
         return result;
       } catch (error) {
         throw error;
       } finally {
-        if (page) {
+        if (leased) {
           try {
-            await this.releasePage(page);
+            await this.releasePage(leased.page, leased.session);
           } catch (closeError) {
             this.logger.warn('Failed to release page', { error: closeError });
           }
@@ -226,11 +443,11 @@ export class BrowserService {
   async close(): Promise<void> {
     if (this.browser) {
       try {
-        // Close all pooled pages
-        await Promise.all(this.pagePool.map(page => 
-          page.isClosed() ? Promise.resolve() : page.close()
-        ));
-        this.pagePool = [];
+        // Close every browser context along with its pages
+        const sessions = [...this.retiredSessions, ...(this.session ? [this.session] : [])];
+        this.session = null;
+        this.retiredSessions.clear();
+        await Promise.all(sessions.map(session => session.context.close()));
 
         // Close any other pages and the browser
         if (this.browser.isConnected()) {
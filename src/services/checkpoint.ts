@@ -0,0 +1,136 @@
+import { promises as fs } from 'fs';
+import { CrawlCheckpoint, Logger } from '../types.js';
+import { writeFileAtomic } from '../utils.js';
+import { LinkQueue } from './linkQueue.js';
+
+/**
+ * Service for persisting crawl state so interrupted runs can be resumed
+ */
+export class CheckpointService {
+  private timer: NodeJS.Timeout | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private startedAt = new Date();
+
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Loads the last saved checkpoint, or null if none exists
+   */
+  async load(): Promise<CrawlCheckpoint | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const raw = JSON.parse(content);
+    const checkpoint: CrawlCheckpoint = {
+      ...raw,
+      startedAt: new Date(raw.startedAt),
+      lastUpdatedAt: new Date(raw.lastUpdatedAt)
+    };
+
+    // Keep the original start time so progress spans the whole crawl
+    this.startedAt = checkpoint.startedAt;
+
+    this.logger.info('Loaded checkpoint', {
+      filePath: this.filePath,
+      lastUpdatedAt: checkpoint.lastUpdatedAt.toISOString(),
+      processedLinks: checkpoint.processedLinks,
+      totalLinks: checkpoint.totalLinks
+    });
+
+    return checkpoint;
+  }
+
+  /**
+   * Restores a link queue from the last checkpoint
+   * Books saved since the crawl started count as completed, even when they were flushed after the checkpoint
+   * Books kept in the output from earlier crawls do not, so a recurring crawl scrapes them again
+   * @param readSavedSince - Reads the URLs the output has seen scraped since the given time
+   * @returns Whether there was a checkpoint to restore
+   */
+  async restoreQueue(linkQueue: LinkQueue, readSavedSince?: (startedAt: Date) => Promise<string[]>): Promise<boolean> {
+    const checkpoint = await this.load();
+    if (!checkpoint) {
+      return false;
+    }
+    const savedUrls = await readSavedSince?.(checkpoint.startedAt) ?? [];
+    linkQueue.restore({
+      ...checkpoint,
+      completedLinks: [...checkpoint.completedLinks, ...savedUrls]
+    });
+    return true;
+  }
+
+  /**
+   * Writes the current queue state to disk
+   * The file is replaced atomically so a crash mid-write never leaves a truncated checkpoint
+   */
+  async save(linkQueue: LinkQueue): Promise<void> {
+    const snapshot = linkQueue.snapshot();
+    const stats = linkQueue.getStats();
+    const checkpoint: CrawlCheckpoint = {
+      ...snapshot,
+      processedLinks: stats.processed,
+      totalLinks: snapshot.pendingLinks.length + snapshot.inFlightLinks.length +
+        snapshot.completedLinks.length + snapshot.failedLinks.length,
+      lastProcessedUrl: snapshot.completedLinks[snapshot.completedLinks.length - 1],
+      startedAt: this.startedAt,
+      lastUpdatedAt: new Date()
+    };
+
+    // Serialize writes so overlapping saves cannot interleave on the temp file
+    this.pendingSave = this.pendingSave.then(() =>
+      writeFileAtomic(this.filePath, JSON.stringify(checkpoint, null, 2))
+    );
+
+    try {
+      await this.pendingSave;
+      this.logger.debug('Checkpoint saved', {
+        pending: snapshot.pendingLinks.length,
+        inFlight: snapshot.inFlightLinks.length,
+        completed: snapshot.completedLinks.length
+      });
+    } catch (error) {
+      this.pendingSave = Promise.resolve();
+      this.logger.error('Failed to save checkpoint', error as Error, { filePath: this.filePath });
+      throw error;
+    }
+  }
+
+  /**
+   * Starts saving checkpoints on a fixed interval
+   * @param beforeSave - Runs before each save, e.g. to flush buffered output
+   */
+  startAutoSave(linkQueue: LinkQueue, intervalMs: number, beforeSave?: () => Promise<void>): void {
+    this.stopAutoSave();
+    this.timer = setInterval(async () => {
+      try {
+        await beforeSave?.();
+        await this.save(linkQueue);
+      } catch (error) {
+        // The next interval will try again
+        this.logger.warn('Periodic checkpoint failed', { error });
+      }
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Stops periodic checkpointing
+   */
+  stopAutoSave(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
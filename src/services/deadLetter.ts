@@ -0,0 +1,92 @@
+import { promises as fs } from 'fs';
+import { Logger, ScrapingErrorRecord } from '../types.js';
+import { writeFileAtomic } from '../utils.js';
+
+/**
+ * Service for keeping track of permanently failed URLs in a JSON Lines file
+ * Each URL appears once; failing again adds to its attempt count, succeeding removes it
+ */
+export class DeadLetterStore {
+  private records: Map<string, ScrapingErrorRecord> = new Map();
+  private dirty = false;
+
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Loads previously recorded failures from disk
+   */
+  async load(): Promise<ScrapingErrorRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    this.records.clear();
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      const raw = JSON.parse(line);
+      this.records.set(raw.url, { ...raw, timestamp: new Date(raw.timestamp) });
+    }
+
+    this.logger.info('Loaded dead-letter records', { filePath: this.filePath, count: this.records.size });
+    return this.getRecords();
+  }
+
+  /**
+   * Records a permanently failed URL
+   */
+  add(record: ScrapingErrorRecord): void {
+    const previous = this.records.get(record.url);
+    this.records.set(record.url, {
+      ...record,
+      attemptCount: (previous?.attemptCount ?? 0) + record.attemptCount
+    });
+    this.dirty = true;
+  }
+
+  /**
+   * Removes URLs that have since been scraped successfully
+   */
+  resolve(urls: string[]): void {
+    for (const url of urls) {
+      if (this.records.delete(url)) {
+        this.dirty = true;
+      }
+    }
+  }
+
+  /**
+   * Gets all currently recorded failures
+   */
+  getRecords(): ScrapingErrorRecord[] {
+    return [...this.records.values()];
+  }
+
+  /**
+   * Writes the records to disk if anything changed since the last save
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    try {
+      const lines = this.getRecords().map(record => JSON.stringify(record));
+      await writeFileAtomic(this.filePath, lines.length > 0 ? lines.join('\n') + '\n' : '');
+      this.dirty = false;
+    } catch (error) {
+      this.logger.error('Failed to save dead-letter records', error as Error, { filePath: this.filePath });
+      throw error;
+    }
+  }
+}
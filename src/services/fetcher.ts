@@ -0,0 +1,51 @@
+import { FetcherBackend, Logger, PageFetcher, ScraperConfig } from '../types.js';
+import { BrowserService } from './browser.js';
+import { HttpFetcher } from './httpFetcher.js';
+import { PageArchive, RecordingFetcher, ReplayFetcher } from './pageArchive.js';
+import { RobotsFetcher, RobotsService } from './robots.js';
+import { ThrottleController } from './throttle.js';
+import { ProxyPool } from './rotation.js';
+
+/**
+ * Per-site request policies shared by every fetcher of a run
+ */
+export interface FetchControls {
+  robots: RobotsService;
+  throttle: ThrottleController;
+  proxies: ProxyPool;  // Used by the browser backend only
+}
+
+/**
+ * Creates the robots.txt, throttling and proxy services for a run
+ */
+export const createFetchControls = (config: ScraperConfig, logger: Logger): FetchControls => ({
+  robots: new RobotsService(config, logger),
+  throttle: new ThrottleController(config, logger),
+  proxies: new ProxyPool(config.scraping.rotation.proxies, config.scraping.rotation.maxProxyFailures, logger),
+});
+
+/**
+ * Creates the page fetcher for a backend, wrapped for recording or replay when the archive is enabled
+ * Live fetchers check robots.txt before every request; replay never touches the network
+ * @param controls - Pass the same controls to every fetcher of a run so Crawl-delay, throttling and proxy health apply to all of them
+ */
+export const createFetcher = (
+  backend: FetcherBackend,
+  config: ScraperConfig,
+  logger: Logger,
+  controls: FetchControls = createFetchControls(config, logger)
+): PageFetcher => {
+  const { mode, directory } = config.scraping.archive;
+  if (mode === 'replay') {
+    return new ReplayFetcher(new PageArchive(directory), logger);
+  }
+
+  const fetcher = backend === 'http'
+    ? new HttpFetcher(config, logger, controls.throttle)
+    : new BrowserService(config, logger, controls.throttle, controls.proxies);
+
+  const live = mode === 'record'
+    ? new RecordingFetcher(fetcher, new PageArchive(directory), logger)
+    : fetcher;
+  return new RobotsFetcher(live, controls.robots, logger);
+};
@@ -0,0 +1,103 @@
+import pLimit from 'p-limit';
+import { FetchedPage, FetchOptions, Logger, PageFetcher, ScraperConfig, ThrottleStats } from '../types.js';
+import { delay } from '../utils.js';
+import { parseRetryAfter, ThrottleController } from './throttle.js';
+
+const DEFAULT_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml',
+  'Accept-Language': 'el-GR,el;q=0.9,en;q=0.8'
+};
+
+/**
+ * Fetches static pages with plain HTTP requests, without launching a browser
+ * Shares the browser service's throttling, concurrency control and retry policy
+ */
+export class HttpFetcher implements PageFetcher {
+  private concurrencyLimit: <T>(fn: () => Promise<T>) => Promise<T>;
+
+  constructor(
+    private config: ScraperConfig,
+    private logger: Logger,
+    private throttle: ThrottleController = new ThrottleController(config, logger)
+  ) {
+    // Initialize concurrency limiter
+    this.concurrencyLimit = pLimit(config.scraping.maxConcurrent);
+  }
+
+  /**
+   * Nothing to set up; present to satisfy the fetcher interface
+   */
+  async initialize(): Promise<void> {
+    this.logger.info('HTTP fetcher ready', { maxConcurrent: this.config.scraping.maxConcurrent });
+  }
+
+  /**
+   * Fetches a page with rate limiting and retries
+   * Server errors and throttling responses are retried like network failures
+   * An aborted signal cancels the request in flight and any wait before the next attempt
+   */
+  async fetch(url: string, options: FetchOptions = {}): Promise<FetchedPage> {
+    const { signal } = options;
+    return this.concurrencyLimit(async () => {
+      const maxRetries = this.config.scraping.maxRetries ?? 3;
+      let lastError: Error | null = null;
+
+      for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        signal?.throwIfAborted();
+        let retryAfterMs: number | null = null;
+        try {
+          // Wait for the throttle to allow another request
+          const release = await this.throttle.acquire(signal);
+          let response: Response;
+          try {
+            const timeout = AbortSignal.timeout(this.config.scraping.timeout);
+            response = await fetch(url, {
+              headers: DEFAULT_HEADERS,
+              redirect: 'follow',
+              signal: signal ? AbortSignal.any([signal, timeout]) : timeout
+            });
+          } finally {
+            release();
+          }
+
+          const retryAfter = response.headers.get('retry-after');
+          this.throttle.recordResponse(url, response.status, retryAfter);
+          if (response.status === 429 || response.status >= 500) {
+            retryAfterMs = parseRetryAfter(retryAfter);
+            throw new Error(`HTTP ${response.status}`);
+          }
+
+          return {
+            url,
+            status: response.status,
+            headers: Object.fromEntries(response.headers.entries()),
+            body: await response.text()
+          };
+        } catch (error) {
+          if (signal?.aborted) {
+            throw signal.reason;
+          }
+          lastError = error as Error;
+          if (attempt < maxRetries) {
+            // A Retry-After pause is enforced by the throttle on the next acquire
+            const delayMs = Math.min(1000 * Math.pow(2, attempt), 10000);
+            this.logger.warn(`Attempt ${attempt} failed: ${url}. Retrying in ${delayMs}ms...`, { url, error, retryAfterMs });
+            await delay(delayMs, signal);
+          }
+        }
+      }
+
+      throw lastError;
+    });
+  }
+
+  getThrottleStats(): ThrottleStats {
+    return this.throttle.getStats();
+  }
+
+  /**
+   * Nothing to release; present to satisfy the fetcher interface
+   */
+  async close(): Promise<void> {}
+}
@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { Logger } from '../types.js';
+import { Logger, LinkQueueSnapshot, ProgressEvent, ScrapePhase } from '../types.js';
 import pLimit from 'p-limit';
 
 interface QueueStats {
@@ -14,6 +14,10 @@ interface QueueStats {
 export class LinkQueue extends EventEmitter {
   private queue: string[] = [];
   private processing: Set<string> = new Set();
+  private completed: Set<string> = new Set();
+  private failed: Set<string> = new Set();
+  private nextPageUrls: Map<string, string | null> = new Map();
+  private linkSeeds: Map<string, string> = new Map();
   private isComplete = false;
   private logger: Logger;
   private stats: QueueStats = {
@@ -32,11 +36,21 @@ export class LinkQueue extends EventEmitter {
 
   /**
    * Adds new links to the queue and emits 'links-available' event with throttling
+   * @param seed - Listing seed the links were discovered from
    */
-  public addLinks(links: string[]): void {
+  public addLinks(links: string[], seed?: string): void {
     // Deduplicate links before adding
-    const newLinks = links.filter(link => !this.processing.has(link));
+    const newLinks = links.filter(link =>
+      !this.processing.has(link) && !this.completed.has(link) && !this.failed.has(link)
+    );
     this.queue.push(...newLinks);
+
+    if (seed) {
+      // Keep the first seed that found a link when several seeds list the same book
+      newLinks
+        .filter(link => !this.linkSeeds.has(link))
+        .forEach(link => this.linkSeeds.set(link, seed));
+    }
     
     const now = Date.now();
     if (now - this.lastEmitTime >= this.EMIT_THROTTLE) {
@@ -64,7 +78,10 @@ export class LinkQueue extends EventEmitter {
    * Marks items as processed and updates statistics
    */
   public markProcessed(links: string[], success: boolean, processingTime: number): void {
-    links.forEach(link => this.processing.delete(link));
+    links.forEach(link => {
+      this.processing.delete(link);
+      (success ? this.completed : this.failed).add(link);
+    });
     
     if (success) {
       this.stats.processed += links.length;
@@ -79,6 +96,83 @@ export class LinkQueue extends EventEmitter {
     }
   }
 
+  /**
+   * Puts in-flight links back at the front of the queue, e.g. when their fetch was cancelled
+   */
+  public requeue(links: string[]): void {
+    links.forEach(link => this.processing.delete(link));
+    this.queue.unshift(...links);
+  }
+
+  /**
+   * Records the listing page the link scraper will visit next for a seed
+   * @param url - Next page, or null once the seed has no more pages
+   */
+  public setNextPageUrl(seed: string, url: string | null): void {
+    this.nextPageUrls.set(seed, url);
+  }
+
+  /**
+   * Gets the listing page a seed should continue from
+   * @returns The next page, null if the seed is exhausted, or undefined if it hasn't been started
+   */
+  public getNextPageUrl(seed: string): string | null | undefined {
+    return this.nextPageUrls.get(seed);
+  }
+
+  /**
+   * Gets the seed a link was discovered from
+   */
+  public getSeed(link: string): string | null {
+    return this.linkSeeds.get(link) ?? null;
+  }
+
+  /**
+   * Checks whether link collection has already finished
+   */
+  public isCollectionComplete(): boolean {
+    return this.isComplete;
+  }
+
+  /**
+   * Captures the current queue state for checkpointing
+   */
+  public snapshot(): LinkQueueSnapshot {
+    return {
+      pendingLinks: [...this.queue],
+      inFlightLinks: [...this.processing],
+      completedLinks: [...this.completed],
+      failedLinks: [...this.failed],
+      nextPageUrls: Object.fromEntries(this.nextPageUrls),
+      linkSeeds: Object.fromEntries(this.linkSeeds),
+      linksComplete: this.isComplete,
+    };
+  }
+
+  /**
+   * Restores queue state from a checkpoint
+   * In-flight links are put back at the front of the queue since their results were never confirmed
+   */
+  public restore(snapshot: LinkQueueSnapshot): void {
+    this.completed = new Set(snapshot.completedLinks);
+    this.failed = new Set(snapshot.failedLinks);
+    this.processing.clear();
+    this.queue = [...new Set([...snapshot.inFlightLinks, ...snapshot.pendingLinks])]
+      .filter(link => !this.completed.has(link) && !this.failed.has(link));
+    this.nextPageUrls = new Map(Object.entries(snapshot.nextPageUrls));
+    this.linkSeeds = new Map(Object.entries(snapshot.linkSeeds));
+    this.isComplete = snapshot.linksComplete;
+    this.stats.processed = this.completed.size;
+    this.stats.failed = this.failed.size;
+
+    this.logger.info('Restored link queue from checkpoint', {
+      pending: this.queue.length,
+      completed: this.completed.size,
+      failed: this.failed.size,
+      linksComplete: this.isComplete
+    });
+  }
+
   /**
    * Marks the link collection as complete
    */
@@ -94,12 +188,27 @@ export class LinkQueue extends EventEmitter {
     return this.queue.length > 0 || !this.isComplete || this.processing.size > 0;
   }
 
+  /**
+   * Describes the queue for a progress event
+   */
+  public getProgress(phase: ScrapePhase): ProgressEvent {
+    return {
+      phase,
+      processed: this.stats.processed,
+      failed: this.stats.failed,
+      pending: this.queue.length,
+      inFlight: this.processing.size,
+      linksComplete: this.isComplete,
+    };
+  }
+
   /**
    * Gets the current queue size and processing statistics
    */
-  public getStats(): { queueSize: number } & QueueStats {
+  public getStats(): { queueSize: number; inFlight: number } & QueueStats {
     return {
       queueSize: this.queue.length,
+      inFlight: this.processing.size,
       ...this.stats
     };
   }
@@ -0,0 +1,311 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  FetchedPage,
+  FetchOptions,
+  HealthReport,
+  Logger,
+  PageFetcher,
+  PhaseHealth,
+  ScrapePhase,
+  ScraperConfig,
+  ThrottleStats
+} from '../types.js';
+import { LinkQueue } from './linkQueue.js';
+
+type Labels = Record<string, string>;
+
+// Upper bounds of the fetch latency buckets, in seconds
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+const escapeLabel = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+/**
+ * Prometheus counter, one series per label combination
+ */
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+    ];
+  }
+}
+
+/**
+ * Prometheus histogram, one series per label combination
+ */
+class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((bound, index) => {
+      entry.counts[index] += value <= bound ? 1 : 0;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+      ...[...this.series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...this.buckets.map((bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`
+        ),
+        `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+        `${this.name}_sum${formatLabels(labels)} ${sum}`,
+        `${this.name}_count${formatLabels(labels)} ${count}`,
+      ])
+    ];
+  }
+}
+
+/**
+ * Renders a gauge whose value is read when metrics are scraped
+ */
+const renderGauge = (name: string, help: string, value: number): string[] => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} gauge`,
+  `${name} ${value}`,
+];
+
+/**
+ * Counters, histograms and phase progress for one run, rendered in the Prometheus text format
+ * Queue and throttle gauges are read from their sources at scrape time
+ */
+export class ScraperMetrics {
+  readonly pagesFetched = new Counter('polit_pages_fetched_total', 'Pages fetched, by phase and outcome');
+  readonly fetchDuration = new Histogram(
+    'polit_fetch_duration_seconds',
+    'Time to fetch a page, including throttling waits and retries inside the fetcher',
+    LATENCY_BUCKETS
+  );
+  readonly books = new Counter('polit_books_total', 'Books processed, by outcome (saved, skipped or failed)');
+  readonly retries = new Counter('polit_retries_total', 'Retried attempts, by error class');
+
+  private queue: LinkQueue | null = null;
+  private throttle: (() => ThrottleStats | null) | null = null;
+  private phases = new Map<ScrapePhase, PhaseHealth>(
+    (['links', 'details'] as ScrapePhase[]).map(phase => [
+      phase,
+      { state: 'pending', startedAt: null, lastProgressAt: null, stalled: false }
+    ])
+  );
+
+  /**
+   * Reads queue depth and in-flight count from a link queue
+   */
+  watchQueue(queue: LinkQueue): void {
+    this.queue = queue;
+  }
+
+  /**
+   * Reads the current pacing from the run's throttle
+   */
+  watchThrottle(getStats: () => ThrottleStats | null): void {
+    this.throttle = getStats;
+  }
+
+  startPhase(phase: ScrapePhase): void {
+    const now = new Date();
+    this.phases.set(phase, { state: 'running', startedAt: now, lastProgressAt: now, stalled: false });
+  }
+
+  /**
+   * Notes that a phase is getting somewhere, e.g. finished a listing page or a batch of books
+   */
+  recordProgress(phase: ScrapePhase): void {
+    this.phases.get(phase)!.lastProgressAt = new Date();
+  }
+
+  endPhase(phase: ScrapePhase, failed: boolean): void {
+    this.phases.get(phase)!.state = failed ? 'failed' : 'completed';
+  }
+
+  /**
+   * Reports each phase's state, flagging running phases that have made no progress for too long
+   */
+  getHealth(stallTimeoutMs: number, now = new Date()): HealthReport {
+    const phases = Object.fromEntries([...this.phases].map(([phase, health]) => [phase, {
+      ...health,
+      stalled: health.state === 'running' &&
+        now.getTime() - (health.lastProgressAt ?? now).getTime() > stallTimeoutMs
+    }])) as Record<ScrapePhase, PhaseHealth>;
+
+    const all = Object.values(phases);
+    const status = all.some(phase => phase.state === 'failed')
+      ? 'failed'
+      : all.some(phase => phase.stalled) ? 'stalled' : 'ok';
+    return { status, checkedAt: now, phases };
+  }
+
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  render(): string {
+    const lines = [
+      ...this.pagesFetched.render(),
+      ...this.fetchDuration.render(),
+      ...this.books.render(),
+      ...this.retries.render(),
+    ];
+
+    if (this.queue) {
+      const stats = this.queue.getStats();
+      lines.push(
+        ...renderGauge('polit_queue_pending', 'Book links waiting to be scraped', stats.queueSize),
+        ...renderGauge('polit_queue_in_flight', 'Book links being scraped', stats.inFlight)
+      );
+    }
+
+    const throttle = this.throttle?.();
+    if (throttle) {
+      lines.push(
+        ...renderGauge('polit_throttle_rate_per_minute', 'Current request rate limit', throttle.ratePerMinute),
+        ...renderGauge('polit_throttle_concurrency', 'Current limit on concurrent requests', throttle.concurrency),
+        ...renderGauge(
+          'polit_throttle_next_request_seconds',
+          'Time until the rate limit or a Retry-After pause lets the next request start',
+          throttle.nextRequestInMs / 1000
+        ),
+        ...renderGauge('polit_throttle_paused', '1 while a Retry-After pause is in effect', throttle.pausedUntil ? 1 : 0),
+        '# HELP polit_throttled_responses_total 429 and 503 responses received',
+        '# TYPE polit_throttled_responses_total counter',
+        `polit_throttled_responses_total ${throttle.throttledResponses}`
+      );
+    }
+
+    lines.push(
+      '# HELP polit_phase_last_progress_seconds Unix time of each phase\'s last progress; 0 before it starts',
+      '# TYPE polit_phase_last_progress_seconds gauge',
+      ...[...this.phases].map(([phase, health]) =>
+        `polit_phase_last_progress_seconds${formatLabels({ phase })} ${(health.lastProgressAt?.getTime() ?? 0) / 1000}`
+      )
+    );
+
+    return `${lines.join('\n')}\n`;
+  }
+}
+
+/**
+ * Fetcher that counts fetched pages and times each fetch
+ */
+export class MetricsFetcher implements PageFetcher {
+  constructor(
+    private fetcher: PageFetcher,
+    private metrics: ScraperMetrics,
+    private phase: ScrapePhase
+  ) {}
+
+  async initialize(): Promise<void> {
+    await this.fetcher.initialize();
+  }
+
+  async fetch(url: string, options?: FetchOptions): Promise<FetchedPage> {
+    const startedAt = process.hrtime.bigint();
+    let outcome = 'error';
+    try {
+      const page = await this.fetcher.fetch(url, options);
+      outcome = String(page.status);
+      return page;
+    } catch (error) {
+      outcome = options?.signal?.aborted
+        ? 'cancelled'
+        : (error as Error).name === 'DisallowedByRobotsError' ? 'disallowed' : 'error';
+      throw error;
+    } finally {
+      this.metrics.pagesFetched.inc({ phase: this.phase, outcome });
+      this.metrics.fetchDuration.observe(
+        { phase: this.phase },
+        Number(process.hrtime.bigint() - startedAt) / 1e9
+      );
+    }
+  }
+
+  getThrottleStats(): ThrottleStats | null {
+    return this.fetcher.getThrottleStats();
+  }
+
+  async close(): Promise<void> {
+    await this.fetcher.close();
+  }
+}
+
+/**
+ * Local HTTP endpoint serving /metrics for Prometheus and /healthz for liveness checks
+ * /healthz answers 503 when a phase has stalled or failed
+ */
+export class MetricsServer {
+  private server: http.Server | null = null;
+
+  constructor(
+    private metrics: ScraperMetrics,
+    private config: ScraperConfig,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Starts listening on the configured host and port
+   * @returns The endpoint's base URL
+   */
+  async start(): Promise<string> {
+    const { port, host } = this.config.metrics;
+    this.server = http.createServer((request, response) => this.handle(request, response));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port ?? 0, host, resolve);
+    });
+
+    const address = this.server.address() as AddressInfo;
+    const url = `http://${host}:${address.port}`;
+    this.logger.info('Metrics endpoint listening', { url });
+    return url;
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    if (pathname === '/metrics') {
+      response.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      response.end(this.metrics.render());
+    } else if (pathname === '/healthz') {
+      const health = this.metrics.getHealth(this.config.metrics.stallTimeoutMs);
+      response.writeHead(health.status === 'ok' ? 200 : 503, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(health));
+    } else {
+      response.writeHead(404, { 'Content-Type': 'text/plain' });
+      response.end('Not found');
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+}
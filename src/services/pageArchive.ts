@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import { createHash } from 'crypto';
+import path from 'path';
+import { FetchedPage, FetchOptions, Logger, NetworkError, PageFetcher, ThrottleStats } from '../types.js';
+import { writeFileAtomic } from '../utils.js';
+
+/**
+ * A fetched page as stored in the archive
+ */
+interface ArchivedPage extends FetchedPage {
+  fetchedAt: string;
+}
+
+/**
+ * On-disk archive of fetched pages, one JSON file per URL
+ */
+export class PageArchive {
+  constructor(private directory: string) {}
+
+  /**
+   * Gets the archive file for a URL; names are hashed since URLs aren't safe file names
+   */
+  private filePath(url: string): string {
+    const hash = createHash('sha1').update(url).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  /**
+   * Saves a page, replacing any earlier copy of the same URL
+   */
+  async save(page: FetchedPage): Promise<void> {
+    const archived: ArchivedPage = { ...page, fetchedAt: new Date().toISOString() };
+    await writeFileAtomic(this.filePath(page.url), JSON.stringify(archived));
+  }
+
+  /**
+   * Loads a saved page, or null if the URL was never archived
+   */
+  async load(url: string): Promise<FetchedPage | null> {
+    try {
+      const { fetchedAt, ...page } = JSON.parse(await fs.readFile(this.filePath(url), 'utf-8')) as ArchivedPage;
+      return page;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Fetcher that saves every page it fetches to the archive
+ */
+export class RecordingFetcher implements PageFetcher {
+  constructor(
+    private fetcher: PageFetcher,
+    private archive: PageArchive,
+    private logger: Logger
+  ) {}
+
+  async initialize(): Promise<void> {
+    await this.fetcher.initialize();
+  }
+
+  async fetch(url: string, options?: FetchOptions): Promise<FetchedPage> {
+    const page = await this.fetcher.fetch(url, options);
+    try {
+      await this.archive.save(page);
+    } catch (error) {
+      // A failed archive write shouldn't lose the page for the live run
+      this.logger.warn('Failed to archive page', { url, error });
+    }
+    return page;
+  }
+
+  getThrottleStats(): ThrottleStats | null {
+    return this.fetcher.getThrottleStats();
+  }
+
+  async close(): Promise<void> {
+    await this.fetcher.close();
+  }
+}
+
+/**
+ * Fetcher that serves pages from the archive without touching the network
+ */
+export class ReplayFetcher implements PageFetcher {
+  constructor(
+    private archive: PageArchive,
+    private logger: Logger
+  ) {}
+
+  async initialize(): Promise<void> {
+    this.logger.info('Replaying pages from archive');
+  }
+
+  async fetch(url: string): Promise<FetchedPage> {
+    const page = await this.archive.load(url);
+    if (!page) {
+      throw new NetworkError(url, new Error('Page not in archive'), { replay: true });
+    }
+    return page;
+  }
+
+  getThrottleStats(): ThrottleStats | null {
+    return null;
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,76 @@
+import { canonicalAuthorKey, matchKey } from '../normalize.js';
+import { ExtractedBook, Logger, RecordFilters } from '../types.js';
+
+/**
+ * One check a book has to pass to be saved, named after its configuration key
+ */
+interface FilterPredicate {
+  name: string;
+  keep(book: ExtractedBook): boolean;
+}
+
+/**
+ * Decides which scraped books are saved, between extraction and storage
+ * Only configured filters are checked; with the defaults every book is kept
+ */
+export class RecordFilter {
+  private predicates: FilterPredicate[];
+
+  constructor(filters: RecordFilters, logger: Logger) {
+    const { minRecommendations, authors, titlePattern, categories, price } = filters;
+    const includedAuthors = new Set(authors.include.map(canonicalAuthorKey));
+    const excludedAuthors = new Set(authors.exclude.map(canonicalAuthorKey));
+    const includedCategories = new Set(categories.include.map(matchKey));
+    const excludedCategories = new Set(categories.exclude.map(matchKey));
+    const title = titlePattern === null ? null : new RegExp(titlePattern, 'i');
+    const inCategories = (book: ExtractedBook, wanted: Set<string>) =>
+      book.categories.some(category => wanted.has(matchKey(category)));
+
+    const candidates: (FilterPredicate | false)[] = [
+      minRecommendations > 0 && {
+        name: 'minRecommendations',
+        keep: book => book.recommendationsCount >= minRecommendations
+      },
+      includedAuthors.size > 0 && {
+        name: 'authors.include',
+        keep: book => includedAuthors.has(canonicalAuthorKey(book.author))
+      },
+      excludedAuthors.size > 0 && {
+        name: 'authors.exclude',
+        keep: book => !excludedAuthors.has(canonicalAuthorKey(book.author))
+      },
+      title !== null && {
+        name: 'titlePattern',
+        keep: book => title.test(book.title)
+      },
+      includedCategories.size > 0 && {
+        name: 'categories.include',
+        keep: book => book.categories.length === 0 || inCategories(book, includedCategories)
+      },
+      excludedCategories.size > 0 && {
+        name: 'categories.exclude',
+        keep: book => !inCategories(book, excludedCategories)
+      },
+      price.min !== null && {
+        name: 'price.min',
+        keep: book => book.price === null || book.price >= price.min!
+      },
+      price.max !== null && {
+        name: 'price.max',
+        keep: book => book.price === null || book.price <= price.max!
+      },
+    ];
+    this.predicates = candidates.filter((predicate): predicate is FilterPredicate => predicate !== false);
+
+    if (this.predicates.length > 0) {
+      logger.info('Filtering scraped books', { filters: this.predicates.map(predicate => predicate.name) });
+    }
+  }
+
+  /**
+   * @returns The name of the first filter the book fails, or null when it is kept
+   */
+  rejects(book: ExtractedBook): string | null {
+    return this.predicates.find(predicate => !predicate.keep(book))?.name ?? null;
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  DisallowedByRobotsError, FetchedPage, FetchOptions, Logger, PageFetcher, RobotsUnavailableError, ScraperConfig, ThrottleStats
+} from '../types.js';
+import { delay } from '../utils.js';
+
+/**
+ * A single Allow or Disallow line
+ */
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+/**
+ * Rules from the robots.txt groups that apply to our user agent
+ */
+export interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelaySeconds: number | null;
+}
+
+// Applied when the site has no robots.txt, as RFC 9309 asks
+const ALLOW_ALL: RobotsRules = { rules: [], crawlDelaySeconds: null };
+
+/**
+ * Parses robots.txt, keeping the groups for our user agent or, when none names it, the `*` groups
+ * @param userAgent - Product token, matched case-insensitively
+ */
+export const parseRobotsTxt = (text: string, userAgent: string): RobotsRules => {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelaySeconds: number | null }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelaySeconds: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay' && Number(value) >= 0) {
+      current.crawlDelaySeconds = Number(value);
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const named = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+  const matching = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+  const delays = matching.map(group => group.crawlDelaySeconds).filter((value): value is number => value !== null);
+
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelaySeconds: delays.length > 0 ? Math.max(...delays) : null
+  };
+};
+
+/**
+ * Tells whether a rule pattern matches a path; `*` matches any run of characters and `$` anchors the end
+ */
+const matchesPattern = (pattern: string, path: string): boolean => {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+};
+
+/**
+ * Finds the rule deciding a path: the longest matching pattern wins, and Allow wins a tie
+ * @returns The deciding rule, or null when no rule matches and the path is allowed
+ */
+export const findRule = (rules: RobotsRules, path: string): RobotsRule | null => {
+  let decisive: RobotsRule | null = null;
+  for (const rule of rules.rules) {
+    if (!matchesPattern(rule.pattern, path)) {
+      continue;
+    }
+    if (
+      !decisive ||
+      rule.pattern.length > decisive.pattern.length ||
+      (rule.pattern.length === decisive.pattern.length && rule.allow)
+    ) {
+      decisive = rule;
+    }
+  }
+  return decisive;
+};
+
+/**
+ * Fetches and applies robots.txt for every host the crawler visits
+ * Shared by the fetchers of a run so Crawl-delay spaces out all requests to a host together
+ */
+export class RobotsService {
+  private policies = new Map<string, Promise<RobotsRules>>();
+  private refetchAfter = new Map<string, number>();  // When a host whose robots.txt failed to load may be asked again
+  private nextSlot = new Map<string, number>();
+
+  constructor(
+    private config: ScraperConfig,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Loads the rules for a URL's host, fetching robots.txt the first time the host is seen
+   * A failed fetch is not kept: callers share its error until the retry delay has passed, then robots.txt is fetched again
+   */
+  private getRules(url: URL): Promise<RobotsRules> {
+    const { origin } = url;
+    let rules = this.policies.get(origin);
+    if (!rules || (this.refetchAfter.get(origin) ?? Infinity) <= Date.now()) {
+      this.refetchAfter.delete(origin);
+      rules = this.load(origin).catch(error => {
+        this.refetchAfter.set(origin, Date.now() + this.config.retry.delayMs);
+        throw error;
+      });
+      this.policies.set(origin, rules);
+    }
+    return rules;
+  }
+
+  private async load(origin: string): Promise<RobotsRules> {
+    const robotsUrl = `${origin}/robots.txt`;
+    let rules: RobotsRules;
+    try {
+      const response = await fetch(robotsUrl, {
+        headers: { 'User-Agent': this.config.scraping.robots.userAgent },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(this.config.scraping.timeout)
+      });
+
+      if (response.ok) {
+        rules = parseRobotsTxt(await response.text(), this.config.scraping.robots.userAgent);
+      } else if (response.status >= 400 && response.status < 500) {
+        this.logger.info('No robots.txt found; every path is allowed', { robotsUrl, status: response.status });
+        return ALLOW_ALL;
+      } else {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    } catch (error) {
+      this.logger.warn('robots.txt could not be fetched; it is asked for again on the next retry', { robotsUrl, error });
+      throw new RobotsUnavailableError(robotsUrl, error as Error);
+    }
+
+    const { crawlDelaySeconds } = rules;
+    const rateLimit = this.config.scraping.rateLimitPerMinute;
+    this.logger.info('Loaded robots.txt', {
+      robotsUrl,
+      userAgent: this.config.scraping.robots.userAgent,
+      rules: rules.rules.length,
+      crawlDelaySeconds
+    });
+    if (crawlDelaySeconds && this.config.scraping.robots.ignoreCrawlDelay) {
+      this.logger.warn(`Ignoring Crawl-delay of ${crawlDelaySeconds}s as configured`, { robotsUrl });
+    } else if (crawlDelaySeconds && 60 / crawlDelaySeconds < rateLimit) {
+      this.logger.info(
+        `Crawl-delay of ${crawlDelaySeconds}s tightens the rate limit from ${rateLimit} ` +
+        `to ${Math.floor(60 / crawlDelaySeconds)} requests per minute`,
+        { robotsUrl }
+      );
+    }
+    return rules;
+  }
+
+  /**
+   * Checks a URL against its host's robots.txt
+   * @returns The rule that disallows the URL, or null if it may be fetched
+   */
+  async findDisallowingRule(url: string): Promise<string | null> {
+    const target = new URL(url);
+    const rule = findRule(await this.getRules(target), target.pathname + target.search);
+    return rule && !rule.allow ? rule.pattern : null;
+  }
+
+  /**
+   * Waits until the host's Crawl-delay has passed since the previous request to it
+   * @param signal - Gives up waiting once aborted, rejecting with the signal's reason
+   */
+  async waitForTurn(url: string, signal?: AbortSignal): Promise<void> {
+    const target = new URL(url);
+    const { crawlDelaySeconds } = await this.getRules(target);
+    if (!crawlDelaySeconds || this.config.scraping.robots.ignoreCrawlDelay) {
+      return;
+    }
+
+    // Reserve the next free slot synchronously so concurrent callers queue up behind each other
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot.get(target.origin) ?? 0);
+    this.nextSlot.set(target.origin, slot + crawlDelaySeconds * 1000);
+    if (slot > now) {
+      await delay(slot - now, signal);
+    }
+  }
+}
+
+/**
+ * Fetcher that refuses URLs disallowed by robots.txt and honours Crawl-delay
+ */
+export class RobotsFetcher implements PageFetcher {
+  constructor(
+    private fetcher: PageFetcher,
+    private robots: RobotsService,
+    private logger: Logger
+  ) {}
+
+  async initialize(): Promise<void> {
+    await this.fetcher.initialize();
+  }
+
+  async fetch(url: string, options?: FetchOptions): Promise<FetchedPage> {
+    const rule = await this.robots.findDisallowingRule(url);
+    if (rule !== null) {
+      this.logger.info('Skipping URL disallowed by robots.txt', { url, rule });
+      throw new DisallowedByRobotsError(url, { rule });
+    }
+
+    await this.robots.waitForTurn(url, options?.signal);
+    return this.fetcher.fetch(url, options);
+  }
+
+  getThrottleStats(): ThrottleStats | null {
+    return this.fetcher.getThrottleStats();
+  }
+
+  async close(): Promise<void> {
+    await this.fetcher.close();
+  }
+}
@@ -0,0 +1,148 @@
+import { BrowserIdentity, Logger } from '../types.js';
+
+/**
+ * A proxy as Chromium takes it: the server address, with any credentials kept apart
+ */
+export interface ProxyEndpoint {
+  url: string;  // As configured, with the password masked for logs
+  server: string;  // scheme://host:port, passed to the browser context
+  credentials: { username: string; password: string } | null;
+}
+
+/**
+ * Splits a proxy URL into the server address and its credentials
+ * Chromium answers proxy authentication challenges itself only for HTTP proxies,
+ * so SOCKS proxies with credentials are rejected
+ */
+export const parseProxyUrl = (proxy: string): ProxyEndpoint => {
+  const parsed = new URL(proxy);
+  const scheme = parsed.protocol.replace(/:$/, '');
+  if (!['http', 'https', 'socks4', 'socks5'].includes(scheme)) {
+    throw new Error(`Unsupported proxy scheme "${scheme}" in ${proxy}`);
+  }
+
+  const username = decodeURIComponent(parsed.username);
+  const password = decodeURIComponent(parsed.password);
+  if (username && scheme.startsWith('socks')) {
+    throw new Error(`Chromium cannot authenticate to SOCKS proxies; remove the credentials from ${parsed.host}`);
+  }
+
+  return {
+    url: username ? `${scheme}://${username}:***@${parsed.host}` : `${scheme}://${parsed.host}`,
+    server: `${scheme}://${parsed.host}`,
+    credentials: username ? { username, password } : null
+  };
+};
+
+/**
+ * Hands out proxies in turn and takes out of rotation those that keep failing
+ */
+export class ProxyPool {
+  private readonly proxies: ProxyEndpoint[];
+  private failures = new Map<ProxyEndpoint, number>();
+  private retired = new Set<ProxyEndpoint>();
+  private nextIndex = 0;
+
+  /**
+   * @param proxies - Proxy URLs; an empty list means connecting directly
+   * @param maxFailures - Consecutive failures after which a proxy is retired
+   */
+  constructor(
+    proxies: string[],
+    private maxFailures: number,
+    private logger: Logger
+  ) {
+    this.proxies = proxies.map(parseProxyUrl);
+  }
+
+  /**
+   * Whether any proxies are configured
+   */
+  get enabled(): boolean {
+    return this.proxies.length > 0;
+  }
+
+  /**
+   * Gets the next proxy still in rotation
+   * @returns Null when no proxies are configured
+   * @throws When every proxy has been retired
+   */
+  next(): ProxyEndpoint | null {
+    if (!this.enabled) {
+      return null;
+    }
+    for (let i = 0; i < this.proxies.length; i++) {
+      const proxy = this.proxies[(this.nextIndex + i) % this.proxies.length];
+      if (!this.retired.has(proxy)) {
+        this.nextIndex = (this.nextIndex + i + 1) % this.proxies.length;
+        return proxy;
+      }
+    }
+    throw new Error(`All ${this.proxies.length} proxies have been taken out of rotation`);
+  }
+
+  /**
+   * Whether a proxy has been taken out of rotation
+   */
+  isRetired(proxy: ProxyEndpoint): boolean {
+    return this.retired.has(proxy);
+  }
+
+  recordSuccess(proxy: ProxyEndpoint): void {
+    this.failures.set(proxy, 0);
+  }
+
+  /**
+   * Counts a failed request through a proxy, retiring it once it has failed too often in a row
+   * @returns Whether the proxy is now out of rotation
+   */
+  recordFailure(proxy: ProxyEndpoint, reason: string): boolean {
+    if (this.retired.has(proxy)) {
+      return true;
+    }
+    const failures = (this.failures.get(proxy) ?? 0) + 1;
+    this.failures.set(proxy, failures);
+    if (failures < this.maxFailures) {
+      return false;
+    }
+
+    this.retired.add(proxy);
+    this.logger.warn(`Proxy failed ${failures} times in a row. Taking it out of rotation.`, {
+      proxy: proxy.url,
+      reason,
+      remaining: this.proxies.length - this.retired.size
+    });
+    return true;
+  }
+
+  /**
+   * Gets the configured proxies and whether each is still in rotation, for logs
+   */
+  getStatus(): { proxy: string; retired: boolean }[] {
+    return this.proxies.map(proxy => ({ proxy: proxy.url, retired: this.retired.has(proxy) }));
+  }
+}
+
+/**
+ * Hands out browser identities in turn
+ */
+export class IdentityRotator {
+  private nextIndex = 0;
+
+  /**
+   * @param identities - Profiles to rotate through; an empty list keeps the browser's own identity
+   */
+  constructor(private identities: BrowserIdentity[]) {}
+
+  /**
+   * @returns Null when no identities are configured
+   */
+  next(): BrowserIdentity | null {
+    if (this.identities.length === 0) {
+      return null;
+    }
+    const identity = this.identities[this.nextIndex];
+    this.nextIndex = (this.nextIndex + 1) % this.identities.length;
+    return identity;
+  }
+}
@@ -0,0 +1,76 @@
+import { CancelledError } from '../types.js';
+
+/**
+ * Lets the owner of a run pause, resume, stop and cancel the scraping loops
+ * The loops check it between rounds, so pages already being fetched finish first unless the run is cancelled
+ */
+export class RunControl {
+  private isStopped = false;
+  private pauseGate: { promise: Promise<void>; release: () => void } | null = null;
+  private controller = new AbortController();
+  private graceTimer: NodeJS.Timeout | null = null;
+
+  get stopped(): boolean {
+    return this.isStopped;
+  }
+
+  get paused(): boolean {
+    return this.pauseGate !== null;
+  }
+
+  /**
+   * Aborted once the run is cancelled; pass it to fetches and retries so they give up
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  pause(): void {
+    if (this.pauseGate || this.isStopped) {
+      return;
+    }
+    let release: () => void = () => undefined;
+    const promise = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    this.pauseGate = { promise, release };
+  }
+
+  resume(): void {
+    this.pauseGate?.release();
+    this.pauseGate = null;
+  }
+
+  /**
+   * Asks the loops to finish; a paused run is released so it can wind down
+   * @param graceMs - Cancels the run if it is still going this long after; 0 cancels it at once
+   */
+  stop(graceMs?: number): void {
+    this.isStopped = true;
+    this.resume();
+    if (graceMs === 0) {
+      this.cancel();
+    } else if (graceMs !== undefined && !this.graceTimer) {
+      // Left to fire harmlessly if the run winds down first, without keeping the process alive
+      this.graceTimer = setTimeout(() => this.cancel(), graceMs);
+      this.graceTimer.unref();
+    }
+  }
+
+  /**
+   * Stops the run and aborts the work in flight with a CancelledError
+   */
+  cancel(): void {
+    this.stop();
+    if (!this.controller.signal.aborted) {
+      this.controller.abort(new CancelledError());
+    }
+  }
+
+  /**
+   * Resolves at once unless paused, and otherwise once resumed or stopped
+   */
+  async waitWhilePaused(): Promise<void> {
+    await this.pauseGate?.promise;
+  }
+}
@@ -0,0 +1,213 @@
+import { promises as fs } from 'fs';
+import { Logger, Recommendation, StoredBook } from '../../types.js';
+import { describeNames } from '../../normalize.js';
+import { writeFileAtomic } from '../../utils.js';
+import { KeyedFileSink } from './keyedFileSink.js';
+
+const BOOK_COLUMNS = [
+  'title', 'author', 'recommendations_count', 'url', 'scraped_at', 'isbn', 'publisher',
+  'publication_year', 'page_count', 'list_price', 'price', 'availability', 'categories', 'cover_image_url',
+  'first_seen_at', 'last_seen_at', 'seed', 'author_key', 'author_latin', 'title_latin'
+];
+
+const RECOMMENDATION_COLUMNS = ['book_url', 'position', 'reviewer', 'date', 'text'];
+
+// The first release appended rows of these columns without a header
+const HEADERLESS_COLUMNS = ['title', 'author', 'recommendations_count', 'url', 'scraped_at'];
+
+/**
+ * Escapes a field for CSV format
+ */
+const escapeCsvField = (field: string | number | null): string => {
+  const value = field === null ? '' : String(field);
+  if (value.includes('"') || value.includes(',') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+/**
+ * Parses CSV content into rows of fields, honouring quoted fields
+ */
+const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+/**
+ * Reads a CSV file into rows keyed by the column names of its header row
+ * @param headerlessColumns - Columns of files that may start straight with data
+ */
+const readCsvFile = async (filePath: string, headerlessColumns?: string[]): Promise<Record<string, string>[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const [first, ...rest] = parseCsv(content);
+  if (!first) {
+    return [];
+  }
+
+  const header = headerlessColumns && !first.includes(headerlessColumns[0]) ? headerlessColumns : first;
+  const rows = header === first ? rest : [first, ...rest];
+
+  return rows.map(fields =>
+    Object.fromEntries(header.map((column, index) => [column, fields[index] ?? '']))
+  );
+};
+
+/**
+ * Converts an empty CSV field to null, otherwise parses it with the given function
+ */
+const optional = <T>(value: string | undefined, parse: (value: string) => T): T | null =>
+  value ? parse(value) : null;
+
+/**
+ * Writes books to a CSV file with a header row, one row per book URL
+ * Recommendations don't fit a flat row, so they go to a second CSV keyed by book URL when one is given
+ */
+export class CsvSink extends KeyedFileSink {
+  constructor(
+    private filePath: string,
+    private recommendationsFilePath: string | null,
+    logger: Logger
+  ) {
+    super(logger);
+  }
+
+  protected async load(): Promise<StoredBook[]> {
+    const [bookRows, recommendationRows] = await Promise.all([
+      readCsvFile(this.filePath, HEADERLESS_COLUMNS),
+      this.recommendationsFilePath ? readCsvFile(this.recommendationsFilePath) : Promise.resolve([])
+    ]);
+
+    const recommendationsByUrl = new Map<string, Recommendation[]>();
+    for (const row of recommendationRows) {
+      const recommendations = recommendationsByUrl.get(row.book_url) ?? [];
+      recommendations.push({
+        bookUrl: row.book_url,
+        position: Number(row.position),
+        reviewer: row.reviewer,
+        date: row.date,
+        text: row.text
+      });
+      recommendationsByUrl.set(row.book_url, recommendations);
+    }
+
+    return bookRows.map(row => {
+      const scrapedAt = new Date(row.scraped_at);
+      const names = describeNames({ title: row.title, author: row.author });
+      return {
+        title: row.title,
+        author: row.author,
+        recommendationsCount: Number(row.recommendations_count),
+        url: row.url,
+        scrapedAt,
+        isbn: optional(row.isbn, String),
+        publisher: optional(row.publisher, String),
+        publicationYear: optional(row.publication_year, Number),
+        pageCount: optional(row.page_count, Number),
+        listPrice: optional(row.list_price, Number),
+        price: optional(row.price, Number),
+        availability: optional(row.availability, String),
+        categories: row.categories ? row.categories.split(' > ') : [],
+        coverImageUrl: optional(row.cover_image_url, String),
+        recommendations: recommendationsByUrl.get(row.url),
+        // The first release's files have neither seen times nor name columns, so they are derived
+        firstSeenAt: optional(row.first_seen_at, value => new Date(value)) ?? scrapedAt,
+        lastSeenAt: optional(row.last_seen_at, value => new Date(value)) ?? scrapedAt,
+        seed: optional(row.seed, String),
+        authorKey: row.author_key || names.authorKey,
+        authorLatin: row.author_latin || names.authorLatin,
+        titleLatin: row.title_latin || names.titleLatin
+      };
+    });
+  }
+
+  protected async save(books: StoredBook[]): Promise<void> {
+    const bookLines = books.map(book =>
+      [
+        book.title,
+        book.author,
+        book.recommendationsCount,
+        book.url,
+        book.scrapedAt.toISOString(),
+        book.isbn,
+        book.publisher,
+        book.publicationYear,
+        book.pageCount,
+        book.listPrice,
+        book.price,
+        book.availability,
+        book.categories.join(' > '),
+        book.coverImageUrl,
+        book.firstSeenAt.toISOString(),
+        book.lastSeenAt.toISOString(),
+        book.seed,
+        book.authorKey,
+        book.authorLatin,
+        book.titleLatin
+      ].map(escapeCsvField).join(',')
+    );
+    await writeFileAtomic(this.filePath, [BOOK_COLUMNS.join(','), ...bookLines].join('\n') + '\n');
+
+    const recommendations = books.flatMap(book => book.recommendations ?? []);
+    if (this.recommendationsFilePath && recommendations.length > 0) {
+      const recommendationLines = recommendations.map(recommendation =>
+        [
+          recommendation.bookUrl,
+          recommendation.position,
+          recommendation.reviewer,
+          recommendation.date,
+          recommendation.text
+        ].map(escapeCsvField).join(',')
+      );
+      await writeFileAtomic(
+        this.recommendationsFilePath,
+        [RECOMMENDATION_COLUMNS.join(','), ...recommendationLines].join('\n') + '\n'
+      );
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { Logger, OutputFormat, OutputSink, ScraperConfig } from '../../types.js';
+import { inferOutputFormat } from '../../utils.js';
+import { CsvSink } from './csvSink.js';
+import { JsonLinesSink } from './jsonLinesSink.js';
+import { SqliteSink } from './sqliteSink.js';
+
+export { CsvSink, JsonLinesSink, SqliteSink };
+
+/**
+ * Creates the output sink selected by the configured output format
+ */
+export const createOutputSink = (config: ScraperConfig, logger: Logger): OutputSink => {
+  switch (config.files.outputFormat) {
+    case 'jsonl':
+      return new JsonLinesSink(config.files.output, logger);
+    case 'sqlite':
+      return new SqliteSink(config.files.output, logger);
+    case 'csv':
+      return new CsvSink(config.files.output, config.files.recommendations, logger);
+  }
+};
+
+/**
+ * Opens an existing output file for reading, inferring its format from the extension
+ * Recommendations kept in a separate CSV are not loaded
+ */
+export const openOutputFile = (filePath: string, logger: Logger, format?: OutputFormat): OutputSink => {
+  switch (format ?? inferOutputFormat(filePath)) {
+    case 'jsonl':
+      return new JsonLinesSink(filePath, logger);
+    case 'sqlite':
+      return new SqliteSink(filePath, logger);
+    case 'csv':
+      return new CsvSink(filePath, null, logger);
+  }
+};
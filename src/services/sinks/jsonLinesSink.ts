@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import { Logger, StoredBook } from '../../types.js';
+import { writeFileAtomic } from '../../utils.js';
+import { KeyedFileSink } from './keyedFileSink.js';
+
+/**
+ * Writes one JSON object per book URL per line, recommendations included as a nested array
+ */
+export class JsonLinesSink extends KeyedFileSink {
+  constructor(
+    private filePath: string,
+    logger: Logger
+  ) {
+    super(logger);
+  }
+
+  protected async load(): Promise<StoredBook[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        const raw = JSON.parse(line);
+        return {
+          ...raw,
+          scrapedAt: new Date(raw.scrapedAt),
+          firstSeenAt: new Date(raw.firstSeenAt),
+          lastSeenAt: new Date(raw.lastSeenAt)
+        };
+      });
+  }
+
+  protected async save(books: StoredBook[]): Promise<void> {
+    const lines = books.map(book => JSON.stringify(book));
+    await writeFileAtomic(this.filePath, lines.length > 0 ? lines.join('\n') + '\n' : '');
+  }
+}
@@ -0,0 +1,107 @@
+import { BookDetails, Logger, OutputSink, StoredBook } from '../../types.js';
+
+/**
+ * Dates a freshly scraped book as first and last seen when it was scraped
+ */
+export const seenWhenScraped = (details: BookDetails): StoredBook => ({
+  ...details,
+  firstSeenAt: details.scrapedAt,
+  lastSeenAt: details.scrapedAt
+});
+
+/**
+ * Merges a book into the record already stored for its URL
+ * Recommendations and seed are kept from the stored record when the new one has none,
+ * and the seen times span both records
+ */
+export const mergeStoredBook = (book: StoredBook, existing?: StoredBook): StoredBook => ({
+  ...existing,
+  ...book,
+  recommendations: book.recommendations ?? existing?.recommendations,
+  seed: book.seed ?? existing?.seed ?? null,
+  firstSeenAt: existing && existing.firstSeenAt < book.firstSeenAt ? existing.firstSeenAt : book.firstSeenAt,
+  lastSeenAt: existing && existing.lastSeenAt > book.lastSeenAt ? existing.lastSeenAt : book.lastSeenAt
+});
+
+/**
+ * Base for file sinks that keep one record per book URL
+ * Records are held in memory and the whole file is rewritten atomically on flush
+ */
+export abstract class KeyedFileSink implements OutputSink {
+  private books: Map<string, StoredBook> | null = null;
+  private unsavedRows = 0;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private readonly SAVE_THRESHOLD = 1000; // Number of rows to write before rewriting the file
+
+  constructor(protected logger: Logger) {}
+
+  /**
+   * Reads the records currently on disk, in file order
+   */
+  protected abstract load(): Promise<StoredBook[]>;
+
+  /**
+   * Replaces the file on disk with the given records
+   */
+  protected abstract save(books: StoredBook[]): Promise<void>;
+
+  /**
+   * Gets the records by URL, loading them from disk on first use
+   * Duplicate rows left by the first release's append-only CSV output collapse into one record per URL
+   */
+  private async getBooks(): Promise<Map<string, StoredBook>> {
+    if (!this.books) {
+      const books = new Map<string, StoredBook>();
+      for (const book of await this.load()) {
+        books.set(book.url, mergeStoredBook(book, books.get(book.url)));
+      }
+      this.books = books;
+    }
+    return this.books;
+  }
+
+  async write(detailsList: BookDetails[]): Promise<void> {
+    await this.writeStored(detailsList.map(seenWhenScraped));
+  }
+
+  async writeStored(storedBooks: StoredBook[]): Promise<void> {
+    const books = await this.getBooks();
+    for (const book of storedBooks) {
+      books.set(book.url, mergeStoredBook(book, books.get(book.url)));
+    }
+
+    this.unsavedRows += storedBooks.length;
+    if (this.unsavedRows >= this.SAVE_THRESHOLD) {
+      await this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (!this.books || this.unsavedRows === 0) {
+      return;
+    }
+
+    // Reset before saving so rows written during the save are picked up by the next flush
+    const pendingRows = this.unsavedRows;
+    this.unsavedRows = 0;
+    const books = [...this.books.values()];
+
+    // Serialize saves so overlapping flushes cannot race on the temp file
+    this.pendingSave = this.pendingSave.catch(() => undefined).then(() => this.save(books));
+    try {
+      await this.pendingSave;
+      this.logger.debug('Saved output records', { count: books.length });
+    } catch (error) {
+      this.unsavedRows += pendingRows;
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+  }
+
+  async readAll(): Promise<StoredBook[]> {
+    return [...(await this.getBooks()).values()];
+  }
+}
@@ -0,0 +1,257 @@
+import { promises as fs } from 'fs';
+import initSqlJs, { Database } from 'sql.js';
+import { BookDetails, Logger, OutputSink, Recommendation, StoredBook } from '../../types.js';
+import { writeFileAtomic } from '../../utils.js';
+import { seenWhenScraped } from './keyedFileSink.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS books (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    recommendations_count INTEGER NOT NULL,
+    scraped_at TEXT NOT NULL,
+    isbn TEXT,
+    publisher TEXT,
+    publication_year INTEGER,
+    page_count INTEGER,
+    list_price REAL,
+    price REAL,
+    availability TEXT,
+    categories TEXT NOT NULL,
+    cover_image_url TEXT,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL,
+    seed TEXT,
+    author_key TEXT NOT NULL,
+    author_latin TEXT NOT NULL,
+    title_latin TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_books_url ON books (url);
+  CREATE INDEX IF NOT EXISTS idx_books_author ON books (author);
+  CREATE INDEX IF NOT EXISTS idx_books_author_key ON books (author_key);
+
+  CREATE TABLE IF NOT EXISTS recommendations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    book_url TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    reviewer TEXT NOT NULL,
+    date TEXT NOT NULL,
+    text TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_recommendations_book_url ON recommendations (book_url);
+`;
+
+/**
+ * Writes books and their recommendations to a local SQLite database file, one row per book URL
+ * The database is held in memory and written to disk on flush, replacing the file atomically
+ */
+export class SqliteSink implements OutputSink {
+  private db: Database | null = null;
+  private unsavedRows = 0;
+  private pendingSave: Promise<void> = Promise.resolve();
+  private readonly SAVE_THRESHOLD = 1000; // Number of rows to insert before writing the file
+
+  constructor(
+    private filePath: string,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Opens the database, loading the existing file if there is one
+   */
+  private async getDatabase(): Promise<Database> {
+    if (!this.db) {
+      const SQL = await initSqlJs();
+      const existing = await fs.readFile(this.filePath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      });
+
+      this.db = new SQL.Database(existing);
+      this.db.exec(SCHEMA);
+      this.logger.debug('Opened SQLite output', { filePath: this.filePath, existing: existing !== null });
+    }
+    return this.db;
+  }
+
+  async write(detailsList: BookDetails[]): Promise<void> {
+    await this.writeStored(detailsList.map(seenWhenScraped));
+  }
+
+  async writeStored(books: StoredBook[]): Promise<void> {
+    const db = await this.getDatabase();
+    const upsertBook = db.prepare(`
+      INSERT INTO books (
+        url, title, author, recommendations_count, scraped_at, isbn, publisher, publication_year,
+        page_count, list_price, price, availability, categories, cover_image_url, first_seen_at, last_seen_at, seed,
+        author_key, author_latin, title_latin
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (url) DO UPDATE SET
+        title = excluded.title,
+        author = excluded.author,
+        recommendations_count = excluded.recommendations_count,
+        scraped_at = excluded.scraped_at,
+        isbn = excluded.isbn,
+        publisher = excluded.publisher,
+        publication_year = excluded.publication_year,
+        page_count = excluded.page_count,
+        list_price = excluded.list_price,
+        price = excluded.price,
+        availability = excluded.availability,
+        categories = excluded.categories,
+        cover_image_url = excluded.cover_image_url,
+        first_seen_at = MIN(books.first_seen_at, excluded.first_seen_at),
+        last_seen_at = MAX(books.last_seen_at, excluded.last_seen_at),
+        seed = COALESCE(excluded.seed, books.seed),
+        author_key = excluded.author_key,
+        author_latin = excluded.author_latin,
+        title_latin = excluded.title_latin
+    `);
+    const deleteRecommendations = db.prepare('DELETE FROM recommendations WHERE book_url = ?');
+    const insertRecommendation = db.prepare(
+      'INSERT INTO recommendations (book_url, position, reviewer, date, text) VALUES (?, ?, ?, ?, ?)'
+    );
+
+    try {
+      db.exec('BEGIN');
+      for (const book of books) {
+        upsertBook.run([
+          book.url,
+          book.title,
+          book.author,
+          book.recommendationsCount,
+          book.scrapedAt.toISOString(),
+          book.isbn,
+          book.publisher,
+          book.publicationYear,
+          book.pageCount,
+          book.listPrice,
+          book.price,
+          book.availability,
+          JSON.stringify(book.categories),
+          book.coverImageUrl,
+          book.firstSeenAt.toISOString(),
+          book.lastSeenAt.toISOString(),
+          book.seed,
+          book.authorKey,
+          book.authorLatin,
+          book.titleLatin
+        ]);
+
+        // Keep stored recommendations when this scrape didn't extract any
+        if (!book.recommendations) {
+          continue;
+        }
+        deleteRecommendations.run([book.url]);
+        for (const recommendation of book.recommendations) {
+          insertRecommendation.run([
+            recommendation.bookUrl,
+            recommendation.position,
+            recommendation.reviewer,
+            recommendation.date,
+            recommendation.text
+          ]);
+        }
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    } finally {
+      upsertBook.free();
+      deleteRecommendations.free();
+      insertRecommendation.free();
+    }
+
+    this.unsavedRows += books.length;
+    if (this.unsavedRows >= this.SAVE_THRESHOLD) {
+      await this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (!this.db || this.unsavedRows === 0) {
+      return;
+    }
+
+    // Reset before saving so rows written during the save are picked up by the next flush
+    const pendingRows = this.unsavedRows;
+    this.unsavedRows = 0;
+    const data = this.db.export();
+
+    // Serialize saves so overlapping flushes cannot race on the temp file
+    this.pendingSave = this.pendingSave.catch(() => undefined).then(() => writeFileAtomic(this.filePath, data));
+    try {
+      await this.pendingSave;
+    } catch (error) {
+      this.unsavedRows += pendingRows;
+      throw error;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      await this.flush();
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  async readAll(): Promise<StoredBook[]> {
+    const db = await this.getDatabase();
+
+    const recommendationsByUrl = new Map<string, Recommendation[]>();
+    const [recommendationRows] = db.exec(
+      'SELECT book_url, position, reviewer, date, text FROM recommendations ORDER BY book_url, position'
+    );
+    for (const [bookUrl, position, reviewer, date, text] of recommendationRows?.values ?? []) {
+      const recommendations = recommendationsByUrl.get(String(bookUrl)) ?? [];
+      recommendations.push({
+        bookUrl: String(bookUrl),
+        position: Number(position),
+        reviewer: String(reviewer),
+        date: String(date),
+        text: String(text)
+      });
+      recommendationsByUrl.set(String(bookUrl), recommendations);
+    }
+
+    const statement = db.prepare('SELECT * FROM books ORDER BY id');
+    const books: StoredBook[] = [];
+    try {
+      while (statement.step()) {
+        const row = statement.getAsObject();
+        books.push({
+          title: String(row.title),
+          author: String(row.author),
+          recommendationsCount: Number(row.recommendations_count),
+          url: String(row.url),
+          scrapedAt: new Date(String(row.scraped_at)),
+          isbn: row.isbn === null ? null : String(row.isbn),
+          publisher: row.publisher === null ? null : String(row.publisher),
+          publicationYear: row.publication_year === null ? null : Number(row.publication_year),
+          pageCount: row.page_count === null ? null : Number(row.page_count),
+          listPrice: row.list_price === null ? null : Number(row.list_price),
+          price: row.price === null ? null : Number(row.price),
+          availability: row.availability === null ? null : String(row.availability),
+          categories: JSON.parse(String(row.categories)),
+          coverImageUrl: row.cover_image_url === null ? null : String(row.cover_image_url),
+          recommendations: recommendationsByUrl.get(String(row.url)),
+          firstSeenAt: new Date(String(row.first_seen_at)),
+          lastSeenAt: new Date(String(row.last_seen_at)),
+          seed: row.seed === null ? null : String(row.seed),
+          authorKey: String(row.author_key),
+          authorLatin: String(row.author_latin),
+          titleLatin: String(row.title_latin)
+        });
+      }
+    } finally {
+      statement.free();
+    }
+    return books;
+  }
+}
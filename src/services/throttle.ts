@@ -0,0 +1,164 @@
+import { Logger, ScraperConfig, ThrottleStats } from '../types.js';
+import { delay } from '../utils.js';
+
+// Statuses that mean the server wants us to slow down
+const THROTTLING_STATUSES = [429, 503];
+
+// Healthy responses needed before the rate and concurrency are raised one step
+const RAMP_UP_AFTER = 10;
+
+// Longest Retry-After honoured as given; longer pauses are shortened to this
+const MAX_PAUSE_MS = 5 * 60 * 1000;
+
+/**
+ * Reads a Retry-After header given in seconds or as an HTTP date
+ * @returns The delay in milliseconds, or null when the header is absent or unreadable
+ */
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | null => {
+  if (!value) {
+    return null;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * Paces requests to a site from its responses
+ * Halves the rate and concurrency on 429/503 and pauses for any Retry-After,
+ * then raises them a step at a time while responses stay healthy, up to the configured limits
+ * Shared by the fetchers of a run so both phases slow down together
+ */
+export class ThrottleController {
+  private ratePerMinute: number;
+  private concurrency: number;
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private nextSlot = 0;
+  private pausedUntil = 0;
+  private healthyStreak = 0;
+  private throttledResponses = 0;
+
+  private readonly maxRate: number;
+  private readonly maxConcurrency: number;
+  private readonly minRate = 1;
+
+  constructor(
+    config: ScraperConfig,
+    private logger: Logger
+  ) {
+    this.maxRate = config.scraping.rateLimitPerMinute;
+    this.maxConcurrency = config.scraping.maxConcurrent;
+    this.ratePerMinute = this.maxRate;
+    this.concurrency = this.maxConcurrency;
+  }
+
+  /**
+   * Waits for a free request slot, honouring the current rate, concurrency and any pause
+   * @param signal - Gives up waiting once aborted, rejecting with the signal's reason
+   * @returns Call once the request has finished to free the slot
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    while (this.active >= this.concurrency) {
+      await new Promise<void>((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = () => {
+          this.waiting = this.waiting.filter(waiter => waiter !== wake);
+          reject(signal!.reason);
+        };
+        const wake = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        this.waiting.push(wake);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+    this.active++;
+
+    let released = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        this.active--;
+        this.waiting.shift()?.();
+      }
+    };
+
+    // Reserve a start time synchronously so concurrent callers are spaced out behind each other
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot, this.pausedUntil);
+    this.nextSlot = slot + 60000 / this.ratePerMinute;
+    if (slot > now) {
+      try {
+        await delay(slot - now, signal);
+      } catch (error) {
+        release();
+        throw error;
+      }
+    }
+    return release;
+  }
+
+  /**
+   * Feeds a response back into the controller
+   * @param retryAfter - The response's Retry-After header, if any
+   */
+  recordResponse(url: string, status: number, retryAfter?: string | null): void {
+    if (!THROTTLING_STATUSES.includes(status)) {
+      this.healthyStreak++;
+      if (this.healthyStreak >= RAMP_UP_AFTER) {
+        this.healthyStreak = 0;
+        this.rampUp();
+      }
+      return;
+    }
+
+    this.throttledResponses++;
+    this.healthyStreak = 0;
+    this.ratePerMinute = Math.max(this.minRate, this.ratePerMinute / 2);
+    this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    this.nextSlot = Math.max(this.nextSlot, Date.now() + 60000 / this.ratePerMinute);
+
+    const pauseMs = parseRetryAfter(retryAfter);
+    if (pauseMs !== null) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + Math.min(pauseMs, MAX_PAUSE_MS));
+    }
+
+    this.logger.warn(`Server throttled us with HTTP ${status}. Backing off.`, {
+      url,
+      ...this.getStats(),
+      retryAfterMs: pauseMs
+    });
+  }
+
+  /**
+   * Raises the rate and concurrency one step towards the configured limits
+   */
+  private rampUp(): void {
+    if (this.ratePerMinute >= this.maxRate && this.concurrency >= this.maxConcurrency) {
+      return;
+    }
+    this.ratePerMinute = Math.min(this.maxRate, this.ratePerMinute + Math.max(1, this.maxRate / 10));
+    this.concurrency = Math.min(this.maxConcurrency, this.concurrency + 1);
+    this.waiting.shift()?.();
+    this.logger.debug('Responses are healthy. Ramping up.', { ...this.getStats() });
+  }
+
+  /**
+   * Gets the current pacing, for stats and logs
+   */
+  getStats(): ThrottleStats {
+    const now = Date.now();
+    return {
+      ratePerMinute: Math.round(this.ratePerMinute * 100) / 100,
+      concurrency: this.concurrency,
+      activeRequests: this.active,
+      nextRequestInMs: Math.max(0, this.nextSlot - now, this.pausedUntil - now),
+      throttledResponses: this.throttledResponses,
+      pausedUntil: this.pausedUntil > now ? new Date(this.pausedUntil) : null
+    };
+  }
+}
@@ -0,0 +1,286 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * Shape of the simulated catalogue and the faults it injects
+ * Books are numbered from 1 in listing order, each listing following on from the previous one
+ */
+export interface SiteSimulatorOptions {
+  listingPaths: string[];  // Each listing has pageCount pages of its own books
+  pageCount: number;
+  booksPerPage: number;
+  recommendations: (book: number) => number;  // Count shown on each book's page; 0 means none
+  brokenBooks: number[];  // Product pages missing their title
+  slowBooks: number[];  // Product pages delayed by slowResponseMs
+  slowResponseMs: number;
+  failingBooks: Record<number, number>;  // Book to number of 503 responses before it succeeds
+  failingListingPages: Record<number, number>;  // Page of the first listing to number of 503 responses before it succeeds
+  throttledBooks: Record<number, number>;  // Book to number of 429 responses before it succeeds
+  retryAfter: string | null;  // Retry-After header sent with 429 responses
+  pageParameter: 'page' | 'limitstart';  // Page number, or item offset as Joomla listings use
+  relNext: boolean;  // Add <link rel="next"> to the head
+  loopLastPage: boolean;  // The last page's next arrow points back to the first page
+  robotsTxt: string | null;  // Served at /robots.txt; 404 when null
+  failingRobotsTxt: number;  // Number of 503 responses to /robots.txt before it is served
+  renamedClasses: Record<string, string>;  // CSS class to the name it is served under, as after a site redesign
+}
+
+const DEFAULT_OPTIONS: SiteSimulatorOptions = {
+  listingPaths: ['/sygrafeas/anthologia-1466'],
+  pageCount: 3,
+  booksPerPage: 4,
+  recommendations: book => book % 3,
+  brokenBooks: [],
+  slowBooks: [],
+  slowResponseMs: 500,
+  failingBooks: {},
+  failingListingPages: {},
+  throttledBooks: {},
+  retryAfter: null,
+  pageParameter: 'page',
+  relNext: false,
+  loopLastPage: false,
+  robotsTxt: null,
+  failingRobotsTxt: 0,
+  renamedClasses: {},
+};
+
+/**
+ * Escapes text for HTML content
+ */
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Local HTTP server that mimics politeianet listing and product pages
+ * Used to exercise the scrapers end to end without touching the real site
+ */
+export class SiteSimulator {
+  private server: http.Server | null = null;
+  private options: SiteSimulatorOptions;
+  private failuresServed = new Map<string, number>();
+  private requests = new Map<string, number>();
+  private clients = new Set<string>();
+  public baseUrl = '';
+
+  constructor(options: Partial<SiteSimulatorOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Total number of books across all listings
+   */
+  get bookCount(): number {
+    return this.options.listingPaths.length * this.booksPerListing;
+  }
+
+  private get booksPerListing(): number {
+    return this.options.pageCount * this.options.booksPerPage;
+  }
+
+  /**
+   * Listing path that lists a book
+   */
+  listingFor(book: number): string {
+    return this.options.listingPaths[Math.floor((book - 1) / this.booksPerListing)];
+  }
+
+  /**
+   * URL of a book's product page
+   */
+  bookUrl(book: number): string {
+    return `${this.baseUrl}/book/${book}`;
+  }
+
+  /**
+   * Number of requests received for a path, including failed ones
+   */
+  requestCount(path: string): number {
+    return this.requests.get(path) ?? 0;
+  }
+
+  /**
+   * Distinct user agent and Accept-Language pairs seen, as "user agent | language"
+   */
+  clientIdentities(): string[] {
+    return [...this.clients];
+  }
+
+  /**
+   * Starts the server on a free local port
+   * @returns The base URL to point the scraper at
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        response.writeHead(500, { 'Content-Type': 'text/plain' });
+        response.end(String(error));
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stops the server and drops open connections
+   */
+  async stop(): Promise<void> {
+    if (this.server) {
+      this.server.closeAllConnections();
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  /**
+   * Routes a request to a listing page or product page
+   */
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', this.baseUrl);
+    this.requests.set(url.pathname + url.search, this.requestCount(url.pathname + url.search) + 1);
+    this.clients.add(`${request.headers['user-agent'] ?? ''} | ${request.headers['accept-language'] ?? ''}`);
+
+    if (url.pathname === '/robots.txt' && this.shouldFail('robots', this.options.failingRobotsTxt)) {
+      return this.send(response, 503, '<html><body>Service unavailable</body></html>');
+    }
+    if (url.pathname === '/robots.txt' && this.options.robotsTxt !== null) {
+      response.writeHead(200, { 'Content-Type': 'text/plain' });
+      response.end(this.options.robotsTxt);
+      return;
+    }
+
+    const listing = this.options.listingPaths.indexOf(url.pathname);
+    if (listing !== -1) {
+      const page = this.options.pageParameter === 'page'
+        ? Number(url.searchParams.get('page') ?? '1')
+        : Number(url.searchParams.get('limitstart') ?? '0') / this.options.booksPerPage + 1;
+      if (!Number.isInteger(page) || page < 1 || page > this.options.pageCount) {
+        return this.send(response, 404, '<html><body>Not found</body></html>');
+      }
+      if (listing === 0 && this.shouldFail(`listing:${page}`, this.options.failingListingPages[page])) {
+        return this.send(response, 503, '<html><body>Service unavailable</body></html>');
+      }
+      return this.send(response, 200, this.renderListing(listing, page));
+    }
+
+    const bookMatch = url.pathname.match(/^\/book\/(\d+)$/);
+    const book = bookMatch ? Number(bookMatch[1]) : 0;
+    if (book < 1 || book > this.bookCount) {
+      return this.send(response, 404, '<html><body>Not found</body></html>');
+    }
+    if (this.shouldFail(`book:${book}`, this.options.failingBooks[book])) {
+      return this.send(response, 503, '<html><body>Service unavailable</body></html>');
+    }
+    if (this.shouldFail(`throttled:${book}`, this.options.throttledBooks[book])) {
+      const headers: Record<string, string> = this.options.retryAfter === null ? {} : { 'Retry-After': this.options.retryAfter };
+      return this.send(response, 429, '<html><body>Too many requests</body></html>', headers);
+    }
+    if (this.options.slowBooks.includes(book)) {
+      await new Promise(resolve => setTimeout(resolve, this.options.slowResponseMs));
+    }
+    return this.send(response, 200, this.renderBook(book));
+  }
+
+  /**
+   * Decides whether a resource should still answer with an error
+   */
+  private shouldFail(key: string, failures: number | undefined): boolean {
+    const served = this.failuresServed.get(key) ?? 0;
+    if (failures === undefined || served >= failures) {
+      return false;
+    }
+    this.failuresServed.set(key, served + 1);
+    return true;
+  }
+
+  private send(response: http.ServerResponse, status: number, body: string, headers: Record<string, string> = {}): void {
+    response.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', ...headers });
+    response.end(body.replace(/class="([^"]*)"/g, (_match, classes: string) =>
+      `class="${classes.split(' ').map(name => this.options.renamedClasses[name] ?? name).join(' ')}"`
+    ));
+  }
+
+  /**
+   * Renders a listing page with its book tiles and pager
+   * As on the real site, the first and last pages leave out the arrows that lead nowhere,
+   * so the number of pager items varies from page to page
+   */
+  private renderListing(listing: number, page: number): string {
+    const { booksPerPage, pageCount, listingPaths } = this.options;
+    const listingPath = listingPaths[listing];
+    const first = listing * this.booksPerListing + (page - 1) * booksPerPage + 1;
+
+    const tiles = Array.from({ length: booksPerPage }, (_, i) => first + i).map(book => `
+      <div class="home-featured-blockImageContainer"><a href="${this.bookUrl(book)}"><img src="/covers/${book}.jpg"></a></div>`
+    ).join('');
+
+    const pageHref = (target: number) => this.options.pageParameter === 'page'
+      ? `${listingPath}?page=${target}`
+      : `${listingPath}?limitstart=${(target - 1) * booksPerPage}`;
+    const item = (label: string, target: number | null) => target === null
+      ? `<li><span>${label}</span></li>`
+      : `<li><a href="${pageHref(target)}">${label}</a></li>`;
+    const windowStart = Math.max(1, Math.min(page - 2, pageCount - 4));
+    const numbers = Array.from({ length: Math.min(5, pageCount) }, (_, i) => windowStart + i)
+      .map(target => item(String(target), target !== page ? target : null));
+    const next = page < pageCount ? page + 1 : this.options.loopLastPage ? 1 : null;
+
+    const pager = [
+      ...(page > 1 ? [item('Αρχή', 1), item('Προηγούμενη', page - 1)] : []),
+      ...numbers,
+      ...(next !== null ? [item('Επόμενη', next)] : []),
+      ...(page < pageCount ? [item('Τέλος', pageCount)] : []),
+    ].join('');
+    const head = this.options.relNext && next !== null
+      ? `<head><link rel="next" href="${pageHref(next)}"></head>`
+      : '';
+
+    return `<html>${head}<body>
+      <div class="listing">${tiles}</div>
+      <ul class="pagination">${pager}</ul>
+    </body></html>`;
+  }
+
+  /**
+   * Renders a product page with bibliographic fields and recommendations
+   */
+  private renderBook(book: number): string {
+    const title = this.options.brokenBooks.includes(book) ? '' : `<h1>Ανθολογία ${book}</h1>`;
+    const count = this.options.recommendations(book);
+    const entries = Array.from({ length: count }, (_, i) => `
+      <div class="review"><strong>Αναγνώστης ${i + 1}</strong><span class="date">0${(i % 9) + 1}/03/2024</span><p>Πρόταση ${i + 1} για το βιβλίο ${book}</p></div>`
+    ).join('');
+    const header = count > 0 ? 'To βιβλίο προτείνουν' : 'Δεν υπάρχουν προτάσεις';
+
+    return `<html><body>
+      <div class="breadcrumbs"><a href="/">Αρχική</a><a href="/poiisi">Ποίηση</a><a href="/anthologies">Ανθολογίες</a></div>
+      <div class="details-left-column"><img src="/covers/${book}.jpg"></div>
+      <div class="details-right-column">
+        ${title}
+        <b><a href="/author/${book % 5}">${escapeHtml(`Συγγραφέας ${book % 5}`)}</a></b>
+        <span class="product-isbn">ISBN: 978-960-${String(book).padStart(5, '0')}-0-1</span>
+        <span class="product-publisher"><a href="/publisher/1">Εκδόσεις Πόλις</a></span>
+        <span class="product-year">Έτος έκδοσης: 20${String(10 + (book % 15))}</span>
+        <span class="product-pages">Σελίδες: ${100 + book}</span>
+        <span class="PricebasePriceWithTax">${20 + book},00 €</span>
+        <span class="PricesalesPrice">${18 + book},50 €</span>
+        <span class="availability">Άμεσα διαθέσιμο</span>
+      </div>
+      <div class="product-reviews-inner"><h4>${header}</h4>${entries}</div>
+    </body></html>`;
+  }
+}
+
+// Run if called directly: serves a default catalogue until interrupted
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const simulator = new SiteSimulator();
+  simulator.start().then(baseUrl => {
+    console.info(`Site simulator listening on ${baseUrl}`);
+  });
+  process.on('SIGINT', () => {
+    simulator.stop().then(() => process.exit(0));
+  });
+}
@@ -0,0 +1,138 @@
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+
+/**
+ * Behaviour of a stand-in proxy
+ */
+export interface StandInProxyOptions {
+  credentials: { username: string; password: string } | null;  // Required with Basic auth when set
+  failing: boolean;  // Answer every request with 502 Bad Gateway
+}
+
+const DEFAULT_OPTIONS: StandInProxyOptions = {
+  credentials: null,
+  failing: false,
+};
+
+/**
+ * Local forward proxy standing in for a real one in tests
+ * Forwards plain HTTP requests and tunnels CONNECT requests, recording what passed through
+ */
+export class StandInProxy {
+  private server: http.Server | null = null;
+  private options: StandInProxyOptions;
+  private sockets = new Set<net.Socket>();
+  public forwarded: string[] = [];  // Target of every request let through, in order
+  public refused = 0;  // Requests answered with 407 or 502
+  public url = '';
+
+  constructor(options: Partial<StandInProxyOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Proxy URL with the configured credentials, as the scraper is given it
+   */
+  get proxyUrl(): string {
+    const { credentials } = this.options;
+    if (!credentials) {
+      return this.url;
+    }
+    const target = new URL(this.url);
+    target.username = credentials.username;
+    target.password = credentials.password;
+    return target.toString().replace(/\/$/, '');
+  }
+
+  /**
+   * Starts the proxy on a free local port
+   * @returns The proxy URL, without credentials
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((request, response) => this.forward(request, response));
+    this.server.on('connect', (request, socket, head) => this.tunnel(request, socket as net.Socket, head));
+    this.server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  /**
+   * Stops the proxy and drops open connections and tunnels
+   */
+  async stop(): Promise<void> {
+    if (this.server) {
+      this.sockets.forEach(socket => socket.destroy());
+      await new Promise<void>(resolve => this.server!.close(() => resolve()));
+      this.server = null;
+    }
+  }
+
+  /**
+   * Checks a request's credentials and whether the proxy is up
+   * @returns The status to refuse the request with, or null to let it through
+   */
+  private refusal(request: http.IncomingMessage): number | null {
+    const { credentials } = this.options;
+    if (credentials) {
+      const expected = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`;
+      if (request.headers['proxy-authorization'] !== expected) {
+        return 407;
+      }
+    }
+    return this.options.failing ? 502 : null;
+  }
+
+  private forward(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const status = this.refusal(request);
+    if (status !== null) {
+      this.refused++;
+      response.writeHead(status, status === 407 ? { 'Proxy-Authenticate': 'Basic realm="stand-in"' } : {});
+      response.end();
+      return;
+    }
+
+    const target = new URL(request.url ?? '/');
+    this.forwarded.push(target.toString());
+    const headers = { ...request.headers };
+    delete headers['proxy-authorization'];
+    delete headers['proxy-connection'];
+
+    const upstream = http.request(target, { method: request.method, headers }, upstreamResponse => {
+      response.writeHead(upstreamResponse.statusCode ?? 502, upstreamResponse.headers);
+      upstreamResponse.pipe(response);
+    });
+    upstream.on('error', () => {
+      response.writeHead(502);
+      response.end();
+    });
+    request.pipe(upstream);
+  }
+
+  private tunnel(request: http.IncomingMessage, socket: net.Socket, head: Buffer): void {
+    const status = this.refusal(request);
+    if (status !== null) {
+      this.refused++;
+      const challenge = status === 407 ? 'Proxy-Authenticate: Basic realm="stand-in"\r\n' : '';
+      socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\n${challenge}\r\n`);
+      return;
+    }
+
+    this.forwarded.push(request.url ?? '');
+    const [host, port] = (request.url ?? '').split(':');
+    const upstream = net.connect(Number(port) || 443, host, () => {
+      socket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      upstream.write(head);
+      upstream.pipe(socket);
+      socket.pipe(upstream);
+    });
+    upstream.on('error', () => socket.destroy());
+    socket.on('error', () => upstream.destroy());
+  }
+}
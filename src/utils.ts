@@ -1,10 +1,27 @@
-import { RetryConfig, ScrapingError } from './types.js';
+import {
+  DisallowedByRobotsError, Logger, OutputFormat, RetryConfig, RobotsUnavailableError, ScrapingError, ScrapingErrorRecord
+} from './types.js';
 
 /**
  * Delays execution for a specified number of milliseconds
+ * @param signal - Cuts the delay short, rejecting with the signal's reason
  */
-export function delay(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
@@ -12,32 +29,56 @@ export function delay(ms: number): Promise<void> {
  * @param operation - The async operation to retry
  * @param config - Retry configuration
  * @param context - Context for error messages
+ * @param logger - Logs each failed attempt; pass a child logger bound to the URL being processed
+ * @param signal - Stops retrying once aborted, rejecting with the signal's reason
  */
 export async function retry<T>(
   operation: () => Promise<T>,
   config: RetryConfig,
-  context: string
+  context: string,
+  logger: Logger,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: Error | undefined;
   let currentDelay = config.delayMs;
 
   for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
+    signal?.throwIfAborted();
     try {
       return await operation();
     } catch (error) {
+      // Whatever the operation failed with, a cancelled run is not a failure to retry
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       lastError = error instanceof Error ? error : new Error(String(error));
+
+      // Asking again won't change what robots.txt allows
+      if (lastError instanceof DisallowedByRobotsError) {
+        throw lastError;
+      }
       
       if (attempt === config.maxAttempts) {
+        // Callers stop the run on an unreadable robots.txt, so it keeps its class
+        if (lastError instanceof RobotsUnavailableError) {
+          throw lastError;
+        }
         throw new ScrapingError(
           `Failed after ${attempt} attempts: ${context}`,
           context,
-          lastError
+          lastError,
+          { attempts: attempt }
         );
       }
 
-      console.warn(`Attempt ${attempt} failed: ${context}. Retrying in ${currentDelay}ms...`);
-      await delay(currentDelay);
-      currentDelay *= config.backoffFactor;
+      config.onRetry?.(lastError, attempt);
+      logger.warn(`Attempt ${attempt} failed: ${context}. Retrying in ${currentDelay}ms...`, {
+        attempt,
+        delayMs: currentDelay,
+        error: lastError
+      });
+      await delay(currentDelay, signal);
+      currentDelay = Math.min(currentDelay * config.backoffFactor, config.maxDelay ?? Infinity);
     }
   }
 
@@ -45,6 +86,43 @@ export async function retry<T>(
   throw new Error('Unexpected retry failure');
 }
 
+/**
+ * Parses a price in Greek format (e.g. "1.234,50 €") into a number
+ * @returns The price in euros, or null if the text holds no number
+ */
+export function parseGreekPrice(text: string | null | undefined): number | null {
+  const match = text?.match(/\d[\d.]*(?:,\d+)?/);
+  if (!match) {
+    return null;
+  }
+
+  // Dots group thousands and the comma marks decimals
+  const value = Number(match[0].replace(/\./g, '').replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Extracts the first integer from a piece of text
+ */
+export function parseInteger(text: string | null | undefined): number | null {
+  const match = text?.match(/\d+/);
+  return match ? Number(match[0]) : null;
+}
+
+/**
+ * Infers an output format from a file extension, defaulting to CSV
+ */
+export function inferOutputFormat(filePath: string): OutputFormat {
+  const extension = filePath.slice(filePath.lastIndexOf('.') + 1).toLowerCase();
+  if (['jsonl', 'ndjson'].includes(extension)) {
+    return 'jsonl';
+  }
+  if (['db', 'sqlite', 'sqlite3'].includes(extension)) {
+    return 'sqlite';
+  }
+  return 'csv';
+}
+
 /**
  * Ensures a directory exists, creating it if necessary
  */
@@ -59,3 +137,36 @@ export async function ensureDirectoryExists(filePath: string): Promise<void> {
     await fs.mkdir(dir, { recursive: true });
   }
 }
+
+/**
+ * Builds an error record for a permanently failed URL
+ * Unwraps the error thrown by retry() so the record carries the underlying error class
+ */
+export function createErrorRecord(url: string, error: unknown, seed: string | null): ScrapingErrorRecord {
+  const err = error instanceof Error ? error : new Error(String(error));
+  const attempts = err instanceof ScrapingError ? err.context?.attempts : undefined;
+  const root = err instanceof ScrapingError && err.cause instanceof ScrapingError ? err.cause : err;
+  const errorType = root.name === 'NetworkError' || root.name === 'ParseError' ? root.name : 'ScrapingError';
+  const cause = root instanceof ScrapingError ? root.cause : undefined;
+
+  return {
+    url,
+    errorType,
+    error: cause ? `${root.message}: ${cause.message}` : root.message,
+    timestamp: new Date(),
+    attemptCount: typeof attempts === 'number' ? attempts : 1,
+    seed
+  };
+}
+
+/**
+ * Writes a file by writing a temporary file and renaming it over the target
+ * Readers never see a partially written file, even if the process dies mid-write
+ */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  const fs = await import('fs/promises');
+  await ensureDirectoryExists(filePath);
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+const { simulator, baseUrl, workDir } = await setUpTestEnvironment('adapters', { pageCount: 2, booksPerPage: 3 }, () => ({
+  SITE: 'every-book',
+  MAX_RETRIES: '1',
+}));
+
+const { getConfig } = await import('../src/config.js');
+const { main } = await import('../src/index.js');
+const { createSiteAdapter, registerSiteAdapter, PoliteianetAdapter } = await import('../src/adapters/index.js');
+const { JsonLinesSink } = await import('../src/services/sinks/index.js');
+import type { CheerioRoot, CheerioSelection } from '../src/adapters/selectorAdapter.js';
+
+// Same markup as politeianet, but books without recommendations are counted as having one
+class EveryBookAdapter extends PoliteianetAdapter {
+  readonly name = 'every-book';
+  pagesRead = 0;
+
+  extractListing(html: string, url: string) {
+    this.pagesRead++;
+    return super.extractListing(html, url);
+  }
+
+  protected countRecommendations($: CheerioRoot, container: CheerioSelection): number {
+    return super.countRecommendations($, container) || 1;
+  }
+}
+
+describe('site adapters', () => {
+  test('rejects an unknown site with the registered names', () => {
+    assert.throws(
+      () => createSiteAdapter({ ...getConfig(), base: { ...getConfig().base, site: 'nowhere' } }),
+      /Unknown site adapter "nowhere"\. Registered adapters: politeianet/
+    );
+  });
+
+  test('reads the ISBN after an "ISBN-13:" or "ISBN-10:" label', () => {
+    const adapter = new PoliteianetAdapter(baseUrl);
+    const isbnOf = (label: string) => adapter.extractBookDetails(
+      `<html><body><div class="details-right-column">
+        <h1>Ανθολογία</h1><b><a href="/author/1">Συγγραφέας</a></b>
+        <span class="product-isbn">${label}</span>
+      </div><div class="product-reviews-inner"></div></body></html>`,
+      simulator.bookUrl(1),
+      false
+    ).isbn;
+
+    assert.equal(isbnOf('ISBN-13: 978-960-16-1234-5'), '9789601612345');
+    assert.equal(isbnOf('ISBN-10: 960-16-1234-x'), '960161234X');
+    assert.equal(isbnOf('ISBN: 978 960 16 1234 5'), '9789601612345');
+    assert.equal(isbnOf('ISBN: -'), null);
+  });
+
+  test('runs the pipeline against the adapter selected with SITE', async () => {
+    const adapter = new EveryBookAdapter(baseUrl);
+    registerSiteAdapter('every-book', () => adapter);
+
+    await main({ resume: false });
+
+    const books = await new JsonLinesSink(path.join(workDir, 'books.jsonl'), logger).readAll();
+    assert.equal(books.length, simulator.bookCount);
+    assert.equal(adapter.pagesRead, 2);
+  });
+});
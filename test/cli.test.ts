@@ -0,0 +1,177 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+// Book 3 has no recommendations; it is saved with a count of 0
+// The environment is the lowest layer above the defaults; flags and config files override it
+const { simulator, workDir } = await setUpTestEnvironment(
+  'cli',
+  { pageCount: 2, booksPerPage: 2, recommendations: book => (book === 3 ? 0 : book) },
+  () => ({ MAX_CONCURRENT: '4', MAX_RETRIES: '1' })
+);
+
+const { CONFIG_OPTIONS, loadConfig } = await import('../src/config.js');
+const { parseCommandLine, renderHelp, runCli } = await import('../src/cli.js');
+const { JsonLinesSink, openOutputFile } = await import('../src/services/sinks/index.js');
+
+/**
+ * Runs the command line, collecting what it prints
+ */
+const run = async (...argv: string[]) => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(argv, { out: text => out.push(text), err: text => err.push(text) });
+  return { code, out: out.join('\n'), err: err.join('\n') };
+};
+
+/**
+ * Dotted paths of every leaf field in a configuration object
+ */
+const leafPaths = (value: object, prefix = ''): string[] =>
+  Object.entries(value).flatMap(([key, field]) =>
+    field && typeof field === 'object' && !Array.isArray(field)
+      ? leafPaths(field, `${prefix}${key}.`)
+      : [`${prefix}${key}`]
+  );
+
+describe('configuration layers', () => {
+  test('every configuration field has a flag and an environment variable', () => {
+    const config = loadConfig();
+    assert.deepEqual(CONFIG_OPTIONS.map(option => option.path).sort(), leafPaths(config).sort());
+
+    const help = renderHelp();
+    for (const option of CONFIG_OPTIONS) {
+      assert.ok(help.includes(`--${option.flag}`), `--${option.flag} is missing from the help`);
+      assert.ok(help.includes(`(${option.env})`), `${option.env} is missing from the help`);
+    }
+  });
+
+  test('flags override the config file, which overrides the environment, which overrides the defaults', async () => {
+    const configFile = path.join(workDir, 'polit.json');
+    await fs.writeFile(configFile, JSON.stringify({ scraping: { maxConcurrent: 6, maxRetries: 2 } }));
+
+    const { configFile: file, overrides } = parseCommandLine([
+      'crawl', '--config', configFile, '--max-concurrent=8', '--no-headless', '--seeds', '/a, /b'
+    ]);
+    const config = loadConfig({ file, overrides });
+    assert.equal(config.scraping.maxConcurrent, 8);
+    assert.equal(config.scraping.maxRetries, 2);
+    assert.equal(config.scraping.rateLimitPerMinute, 100000);
+    assert.equal(config.scraping.timeout, 30000);
+    assert.equal(config.scraping.headless, false);
+    assert.deepEqual(config.base.seeds, ['/a', '/b']);
+    assert.equal(config.files.outputFormat, 'jsonl');
+  });
+
+  test('each load starts from the defaults, whatever earlier loads resolved', () => {
+    // Without file settings in the environment, the files section comes from the defaults alone
+    const environment = { ...process.env };
+    delete process.env.OUTPUT_FILE;
+    delete process.env.CHECKPOINT_FILE;
+    delete process.env.DEAD_LETTER_FILE;
+    try {
+      assert.equal(loadConfig().files.outputFormat, 'csv');
+      const config = loadConfig({ overrides: { files: { output: path.join(workDir, 'books.db') } } });
+      assert.equal(config.files.outputFormat, 'sqlite');
+    } finally {
+      Object.assign(process.env, environment);
+    }
+    assert.equal(loadConfig().files.outputFormat, 'jsonl');
+  });
+
+  test('rejects bad values, naming the flag or the configuration key', async () => {
+    const notANumber = await run('crawl', '--max-concurrent', 'many');
+    assert.equal(notANumber.code, 2);
+    assert.match(notANumber.err, /--max-concurrent must be a whole number; got "many"/);
+
+    const outOfRange = await run('crawl', '--checkpoint-interval', '10');
+    assert.equal(outOfRange.code, 2);
+    assert.match(outOfRange.err, /Invalid configuration at checkpoint\.intervalMs/);
+
+    const badChoice = await run('crawl', '--details-fetcher', 'curl');
+    assert.match(badChoice.err, /--details-fetcher must be one of http, browser/);
+  });
+});
+
+describe('polit command line', () => {
+  test('prints help for the tool and for each command', async () => {
+    const help = await run('--help');
+    assert.equal(help.code, 0);
+    assert.match(help.out, /^Usage: polit <command> \[options\]/);
+    for (const command of ['crawl', 'resume', 'links', 'details', 'export', 'stats']) {
+      assert.match(help.out, new RegExp(`^  ${command}\\b`, 'm'));
+    }
+
+    const exportHelp = await run('export', '-h');
+    assert.equal(exportHelp.code, 0);
+    assert.match(exportHelp.out, /^Usage: polit export <file> \[options\]/);
+    assert.match(exportHelp.out, /--format <value>/);
+  });
+
+  test('reports unknown commands, options and missing arguments as usage errors', async () => {
+    assert.equal((await run()).code, 2);
+    assert.match((await run('scrape')).err, /Unknown command "scrape"/);
+    assert.match((await run('stats', '--format', 'csv')).err, /Unknown option --format for stats/);
+    assert.match((await run('crawl', '--output')).err, /--output needs a value/);
+    assert.match((await run('export')).err, /export needs the file to write to/);
+  });
+
+  test('links saves the collected links for a later details run, then stats and export read the results', async () => {
+    const links = await run('links');
+    assert.equal(links.code, 0);
+
+    const checkpoint = JSON.parse(await fs.readFile(path.join(workDir, 'checkpoint.json'), 'utf-8'));
+    assert.equal(checkpoint.linksComplete, true);
+    assert.deepEqual(checkpoint.pendingLinks.sort(), [1, 2, 3, 4].map(book => simulator.bookUrl(book)).sort());
+    await assert.rejects(fs.access(path.join(workDir, 'books.jsonl')));
+
+    const details = await run('details');
+    assert.equal(details.code, 0);
+    const books = await new JsonLinesSink(path.join(workDir, 'books.jsonl'), logger).readAll();
+    assert.deepEqual(books.map(book => book.url).sort(), [1, 2, 3, 4].map(book => simulator.bookUrl(book)).sort());
+    // The listing pages are not fetched a second time
+    assert.equal(simulator.requestCount('/sygrafeas/anthologia-1466'), 1);
+
+    const stats = await run('stats', '--json');
+    assert.equal(stats.code, 0);
+    const report = JSON.parse(stats.out);
+    assert.equal(report.output.books, 4);
+    assert.equal(report.output.authors, 4);
+    assert.equal(report.output.withRecommendations, 3);
+    assert.equal(report.output.recommendations, 1 + 2 + 4);
+    assert.deepEqual(report.checkpoint && [report.checkpoint.pending, report.checkpoint.completed], [0, 4]);
+    assert.equal(report.deadLetter.failed, 0);
+    assert.match((await run('stats')).out, /Books: 4\n {2}Authors: 4\n {2}With recommendations: 3/);
+
+    const csvFile = path.join(workDir, 'export.csv');
+    assert.equal((await run('export', csvFile)).code, 0);
+    const rows = (await fs.readFile(csvFile, 'utf-8')).trim().split('\n');
+    assert.equal(rows.length, 5);
+    assert.match(rows[0], /^title,author,recommendations_count,url/);
+    assert.match(rows[0], /,author_key,author_latin,title_latin$/);
+    assert.ok(rows.slice(1).some(row => row.endsWith(',συγγραφεασ 1,Syngrafeas 1,Anthologia 1')));
+  });
+
+  test('export keeps when every book was first and last seen', async () => {
+    const [book] = await new JsonLinesSink(path.join(workDir, 'books.jsonl'), logger).readAll();
+    const firstSeenAt = new Date('2026-01-01T00:00:00Z');
+    const lastSeenAt = new Date('2026-06-01T00:00:00Z');
+    const source = path.join(workDir, 'history.jsonl');
+    const sink = new JsonLinesSink(source, logger);
+    await sink.writeStored([{ ...book, scrapedAt: lastSeenAt, firstSeenAt, lastSeenAt }]);
+    await sink.close();
+
+    for (const target of ['history.db', 'history.csv', 'history-copy.jsonl'].map(name => path.join(workDir, name))) {
+      assert.equal((await run('export', target, '--output', source)).code, 0);
+      const [exported] = await openOutputFile(target, logger).readAll();
+      assert.deepEqual([exported.firstSeenAt, exported.lastSeenAt], [firstSeenAt, lastSeenAt], target);
+    }
+  });
+
+  test('details refuses to run before links have been collected', async () => {
+    const result = await run('details', '--checkpoint-file', path.join(workDir, 'missing.json'));
+    assert.equal(result.code, 1);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger, makeWorkDir } from './helpers.js';
+
+const workDir = await makeWorkDir('compare');
+
+const { compareRuns } = await import('../src/compareRuns.js');
+const { openOutputFile } = await import('../src/services/sinks/index.js');
+import type { StoredBook } from '../src/types.js';
+
+const LAST_WEEK = new Date('2026-10-12T06:00:00Z');
+const TODAY = new Date('2026-10-19T06:00:00Z');
+
+/**
+ * A stored book last seen at the given time
+ */
+const book = (id: number, recommendationsCount: number, lastSeenAt: Date): StoredBook => ({
+  title: `Ανθολογία ${id}`,
+  author: `Συγγραφέας ${id}`,
+  recommendationsCount,
+  url: `https://www.politeianet.gr/books/${id}`,
+  scrapedAt: lastSeenAt,
+  isbn: null,
+  publisher: null,
+  publicationYear: null,
+  pageCount: null,
+  listPrice: null,
+  price: null,
+  availability: null,
+  categories: [],
+  coverImageUrl: null,
+  seed: null,
+  authorKey: `συγγραφεασ ${id}`,
+  authorLatin: `Syngrafeas ${id}`,
+  titleLatin: `Anthologia ${id}`,
+  firstSeenAt: LAST_WEEK,
+  lastSeenAt,
+});
+
+/**
+ * Writes books to an output file in the format its extension names
+ */
+const saveBooks = async (file: string, books: StoredBook[]) => {
+  const sink = openOutputFile(file, logger);
+  await sink.writeStored(books);
+  await sink.close();
+};
+
+describe('compareRuns', () => {
+  // Last week's crawl saw books 1 to 3; today's crawl, into the same growing output, saw 1 and 3 again and found 4
+  const previousFile = path.join(workDir, 'last-week.jsonl');
+  const currentFile = path.join(workDir, 'books.db');
+  const writeRuns = async () => {
+    await saveBooks(previousFile, [book(1, 1, LAST_WEEK), book(2, 2, LAST_WEEK), book(3, 3, LAST_WEEK)]);
+    await saveBooks(currentFile, [book(1, 4, TODAY), book(2, 2, LAST_WEEK), book(3, 3, TODAY), book(4, 0, TODAY)]);
+  };
+
+  test('reports books the newer run did not see again as removed, though the output still keeps them', async () => {
+    await writeRuns();
+    const reportBase = path.join(workDir, 'changes');
+    const report = await compareRuns(previousFile, currentFile, reportBase, logger);
+
+    assert.deepEqual(report.added.map(added => added.title), ['Ανθολογία 4']);
+    assert.deepEqual(report.removed.map(removed => removed.title), ['Ανθολογία 2']);
+    assert.deepEqual(
+      report.recommendationChanges.map(change => [change.title, change.previousCount, change.currentCount, change.delta]),
+      [['Ανθολογία 1', 1, 4, 3]]
+    );
+    assert.deepEqual(report.current, { source: currentFile, bookCount: 3, seenAfter: LAST_WEEK });
+
+    const json = JSON.parse(await fs.readFile(`${reportBase}.json`, 'utf-8'));
+    assert.deepEqual(json.removed.map((removed: { url: string }) => removed.url), ['https://www.politeianet.gr/books/2']);
+    const markdown = await fs.readFile(`${reportBase}.md`, 'utf-8');
+    assert.match(markdown, /- Removed books: 1/);
+    assert.match(markdown, /\| \[Ανθολογία 2\]\(https:\/\/www\.politeianet\.gr\/books\/2\) \| Συγγραφέας 2 \| 2 \|/);
+  });
+
+  test('takes the start of the newer run when it is given', async () => {
+    await writeRuns();
+    // A snapshot older than last week's run, which saw book 2 once more
+    const olderFile = path.join(workDir, 'two-weeks-ago.jsonl');
+    const twoWeeksAgo = new Date('2026-10-05T06:00:00Z');
+    await saveBooks(olderFile, [book(1, 1, twoWeeksAgo), book(2, 2, twoWeeksAgo), book(3, 3, twoWeeksAgo)]);
+
+    const byLastSighting = await compareRuns(olderFile, currentFile, path.join(workDir, 'older'), logger);
+    assert.deepEqual(byLastSighting.removed, []);
+
+    const todaysRunStart = new Date('2026-10-19T05:00:00Z');
+    const report = await compareRuns(olderFile, currentFile, path.join(workDir, 'since'), logger, todaysRunStart);
+    assert.deepEqual(report.removed.map(removed => removed.title), ['Ανθολογία 2']);
+    assert.equal(report.current.bookCount, 3);
+  });
+});
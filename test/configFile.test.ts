@@ -0,0 +1,125 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+// The listing tiles are served under a new class name, which the built-in bookLinks selector does not know
+// The environment sits below the config file and its profiles
+const { simulator, workDir } = await setUpTestEnvironment('config-file', {
+  pageCount: 1,
+  booksPerPage: 3,
+  recommendations: () => 2,
+  renamedClasses: { 'home-featured-blockImageContainer': 'book-tile' },
+}, () => ({
+  LINKS_FETCHER: undefined,
+  DETAILS_FETCHER: undefined,
+  OUTPUT_FILE: undefined,
+  MAX_CONCURRENT: '2',
+  RETRY_DELAY: '50',
+}));
+
+const { loadConfig } = await import('../src/config.js');
+const { runCli } = await import('../src/cli.js');
+const { createSiteAdapter, POLITEIANET_SELECTORS } = await import('../src/adapters/index.js');
+const { JsonLinesSink } = await import('../src/services/sinks/index.js');
+
+const configFile = path.join(workDir, 'polit.yaml');
+await fs.writeFile(configFile, `
+# Shared by every profile
+scraping:
+  maxConcurrent: 4
+  fetchers:
+    links: http
+    details: http
+retry:
+  maxAttempts: 2
+files:
+  output: ${path.join(workDir, 'books.jsonl')}
+
+profiles:
+  nightly:
+    scraping:
+      maxConcurrent: 8
+    retry:
+      backoffFactor: 2.5
+  redesign:
+    selectors:
+      bookLinks: .book-tile > a
+`);
+
+/**
+ * Writes a config file and returns the error loading it raises
+ */
+const loadError = async (name: string, content: string, profile: string | null = null): Promise<Error> => {
+  const filePath = path.join(workDir, name);
+  await fs.writeFile(filePath, content);
+  try {
+    loadConfig({ file: filePath, profile });
+  } catch (error) {
+    return error as Error;
+  }
+  assert.fail(`${name} loaded without an error`);
+};
+
+describe('config file', () => {
+  test('a profile overrides the file, which overrides the environment; flags override them all', () => {
+    const base = loadConfig({ file: configFile });
+    assert.equal(base.scraping.maxConcurrent, 4);
+    assert.equal(base.retry.maxAttempts, 2);
+    assert.equal(base.retry.delayMs, 50);
+    assert.equal(base.retry.backoffFactor, 1.5);
+    assert.equal(base.files.outputFormat, 'jsonl');
+
+    const nightly = loadConfig({ file: configFile, profile: 'nightly', overrides: { retry: { maxAttempts: 5 } } });
+    assert.equal(nightly.scraping.maxConcurrent, 8);
+    assert.equal(nightly.scraping.fetchers.details, 'http');
+    assert.equal(nightly.retry.backoffFactor, 2.5);
+    assert.equal(nightly.retry.maxAttempts, 5);
+    assert.equal(nightly.retry.delayMs, 50);
+  });
+
+  test('selectors from the config file replace the adapter\'s own, one at a time', () => {
+    const { selectors } = createSiteAdapter(loadConfig({ file: configFile, profile: 'redesign' }));
+    assert.equal(selectors?.bookLinks, '.book-tile > a');
+    assert.equal(selectors?.bookTitle, POLITEIANET_SELECTORS.bookTitle);
+  });
+
+  test('errors name the offending key', async () => {
+    assert.match(
+      (await loadError('misspelt.yaml', 'scraping:\n  maxConcurent: 3\n')).message,
+      /misspelt\.yaml at scraping\.maxConcurent: Unknown key/
+    );
+    assert.match(
+      (await loadError('profile-value.yaml', 'profiles:\n  fast:\n    retry:\n      backoffFactor: 0.5\n')).message,
+      /at profiles\.fast\.retry\.backoffFactor: Number must be greater than or equal to 1/
+    );
+    assert.match(
+      (await loadError('selector.json', JSON.stringify({ selectors: { bookTitel: 'h1' } }))).message,
+      /selector\.json at selectors\.bookTitel: Invalid enum value/
+    );
+    assert.match(
+      (await loadError('type.json', JSON.stringify({ metrics: { port: 'none' } }))).message,
+      /at metrics\.port: Expected number, received string/
+    );
+
+    const unknownProfile = await loadError('profiles.yaml', 'profiles:\n  dev: {}\n  full: {}\n', 'nightly');
+    assert.equal((unknownProfile as Error & { key: string }).key, 'profiles.nightly');
+    assert.match(unknownProfile.message, /defined profiles: dev, full/);
+
+    assert.match((await loadError('broken.yaml', 'scraping:\n  timeout: [1\n')).message, /broken\.yaml could not be parsed/);
+  });
+
+  test('a renamed class is fixed by a profile, without a code change', async () => {
+    const quiet = { out: () => undefined, err: () => undefined };
+    assert.equal(await runCli(['crawl', '--config', configFile], quiet), 0);
+    const sink = () => new JsonLinesSink(path.join(workDir, 'books.jsonl'), logger);
+    assert.equal((await sink().readAll()).length, 0);
+
+    assert.equal(await runCli(['crawl', '--config', configFile, '--profile', 'redesign'], quiet), 0);
+    assert.deepEqual(
+      (await sink().readAll()).map(book => book.url).sort(),
+      [1, 2, 3].map(book => simulator.bookUrl(book)).sort()
+    );
+  });
+});
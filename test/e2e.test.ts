@@ -0,0 +1,275 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+// Books 1..12 over three listing pages; every third book has no recommendations
+const { simulator, baseUrl, workDir } = await setUpTestEnvironment('e2e', {
+  pageCount: 3,
+  booksPerPage: 4,
+  brokenBooks: [5],
+  slowBooks: [7],
+  failingBooks: { 8: 1, 10: Infinity },
+  failingListingPages: { 2: 1 },
+}, () => ({ MAX_RETRIES: '1' }));
+
+const { getConfig } = await import('../src/config.js');
+const { scrapeBookLinks } = await import('../src/linkScraper.js');
+const { scrapeBookDetails } = await import('../src/detailsScraper.js');
+const { main, Scraper } = await import('../src/index.js');
+const { runCli } = await import('../src/cli.js');
+const { createFetcher } = await import('../src/services/fetcher.js');
+const { createSiteAdapter } = await import('../src/adapters/index.js');
+const { LinkQueue } = await import('../src/services/linkQueue.js');
+const { StorageService } = await import('../src/services/storage.js');
+const { DeadLetterStore } = await import('../src/services/deadLetter.js');
+const { JsonLinesSink, openOutputFile } = await import('../src/services/sinks/index.js');
+import type { ScrapingErrorRecord } from '../src/types.js';
+
+const readOutput = async (filePath: string) => new JsonLinesSink(filePath, logger).readAll();
+
+/**
+ * Output, checkpoint and dead-letter files of their own for one test
+ */
+const files = (name: string, extension = 'jsonl') => ({
+  output: path.join(workDir, `${name}.${extension}`),
+  checkpoint: path.join(workDir, `${name}-checkpoint.json`),
+  deadLetter: path.join(workDir, `${name}-dead-letter.jsonl`),
+});
+
+const LISTING_PAGES = ['/sygrafeas/anthologia-1466', '/sygrafeas/anthologia-1466?page=2', '/sygrafeas/anthologia-1466?page=3'];
+
+/**
+ * Requests the simulator has received for listing and book pages
+ */
+const pageRequests = () => [
+  ...LISTING_PAGES.map(page => simulator.requestCount(page)),
+  ...Array.from({ length: simulator.bookCount }, (_, i) => simulator.requestCount(`/book/${i + 1}`)),
+];
+
+const expectedSaved = (skip: number[]) => Array.from({ length: simulator.bookCount }, (_, i) => i + 1)
+  .filter(book => !skip.includes(book))
+  .map(book => simulator.bookUrl(book));
+
+describe('scrapeBookLinks', () => {
+  test('follows pagination across every listing page and completes the queue', async () => {
+    const config = getConfig();
+    const linkQueue = new LinkQueue(logger);
+
+    await scrapeBookLinks(createSiteAdapter(config), createFetcher('http', config, logger), logger, linkQueue);
+
+    const snapshot = linkQueue.snapshot();
+    assert.equal(snapshot.pendingLinks.length, simulator.bookCount);
+    assert.deepEqual(
+      snapshot.pendingLinks,
+      Array.from({ length: simulator.bookCount }, (_, i) => simulator.bookUrl(i + 1))
+    );
+    assert.equal(snapshot.linksComplete, true);
+    // The listing page that answered 503 once was retried
+    assert.equal(simulator.requestCount('/sygrafeas/anthologia-1466?page=2'), 2);
+  });
+});
+
+describe('scrapeBookDetails', () => {
+  let books: Awaited<ReturnType<typeof readOutput>>;
+  let deadLetterStore: InstanceType<typeof DeadLetterStore>;
+  const outputFile = path.join(workDir, 'details.jsonl');
+
+  before(async () => {
+    const config = getConfig();
+    const linkQueue = new LinkQueue(logger);
+    linkQueue.addLinks(Array.from({ length: simulator.bookCount }, (_, i) => simulator.bookUrl(i + 1)), simulator.listingFor(1));
+    linkQueue.markComplete();
+
+    deadLetterStore = new DeadLetterStore(path.join(workDir, 'details-dead-letter.jsonl'), logger);
+    const storageService = new StorageService(logger, new JsonLinesSink(outputFile, logger));
+
+    await scrapeBookDetails(createSiteAdapter(config), createFetcher('http', config, logger), storageService, logger, linkQueue, { deadLetterStore });
+    await storageService.close();
+    books = await readOutput(outputFile);
+  });
+
+  test('saves every book, with a count of 0 for those without recommendations', () => {
+    assert.deepEqual(books.map(book => book.url).sort(), expectedSaved([5, 10]).sort());
+    assert.equal(books.find(book => book.url === simulator.bookUrl(3))?.recommendationsCount, 0);
+  });
+
+  test('extracts the book fields from the product page', () => {
+    const book = books.find(candidate => candidate.url === simulator.bookUrl(4));
+    assert.ok(book);
+    assert.equal(book.title, 'Ανθολογία 4');
+    assert.equal(book.author, 'Συγγραφέας 4');
+    assert.equal(book.recommendationsCount, 1);
+    assert.equal(book.isbn, '9789600000401');
+    assert.equal(book.price, 22.5);
+    assert.equal(book.listPrice, 24);
+    assert.deepEqual(book.categories, ['Αρχική', 'Ποίηση', 'Ανθολογίες']);
+  });
+
+  test('recovers from a transient server error and waits out slow pages', () => {
+    const urls = books.map(book => book.url);
+    assert.ok(urls.includes(simulator.bookUrl(8)));
+    assert.ok(urls.includes(simulator.bookUrl(7)));
+  });
+
+  test('dead-letters broken and persistently failing pages with their error class', () => {
+    const records = new Map(deadLetterStore.getRecords().map(record => [record.url, record]));
+    assert.equal(records.size, 2);
+    assert.equal(records.get(simulator.bookUrl(5))?.errorType, 'ParseError');
+    assert.equal(records.get(simulator.bookUrl(10))?.errorType, 'NetworkError');
+    assert.equal(records.get(simulator.bookUrl(10))?.attemptCount, 3);
+    assert.equal(records.get(simulator.bookUrl(10))?.seed, simulator.listingFor(10));
+  });
+});
+
+describe('main', () => {
+  test('collects links and scrapes details in parallel into the configured output', async () => {
+    await main({ resume: false });
+
+    const config = getConfig();
+    const books = await readOutput(config.files.output);
+    assert.deepEqual(books.map(book => book.url).sort(), expectedSaved([5, 10]).sort());
+
+    const checkpoint = JSON.parse(await fs.readFile(config.files.checkpoint, 'utf-8'));
+    assert.equal(checkpoint.linksComplete, true);
+    assert.equal(checkpoint.pendingLinks.length, 0);
+  });
+});
+
+describe('resume', () => {
+  test('scrapes books kept from earlier crawls again, and skips those saved since the crawl started', async () => {
+    const resumed = files('resumed');
+    const [earlier, later] = [1, 2].map(book => simulator.bookUrl(book));
+    const startedAt = new Date(Date.now() - 60_000);
+
+    // Book 1 was saved by yesterday's crawl, book 2 by this one after its last checkpoint
+    const [template] = await readOutput(getConfig().files.output);
+    const sink = new JsonLinesSink(resumed.output, logger);
+    await sink.write([
+      { ...template, url: earlier, scrapedAt: new Date(startedAt.getTime() - 86_400_000) },
+      { ...template, url: later, scrapedAt: new Date(startedAt.getTime() + 1000) },
+    ]);
+    await sink.close();
+    await fs.writeFile(resumed.checkpoint, JSON.stringify({
+      pendingLinks: [earlier, later],
+      inFlightLinks: [],
+      completedLinks: [],
+      failedLinks: [],
+      nextPageUrls: {},
+      linkSeeds: {},
+      linksComplete: true,
+      processedLinks: 0,
+      totalLinks: 2,
+      startedAt,
+      lastUpdatedAt: startedAt,
+    }));
+
+    const requests = [simulator.requestCount('/book/1'), simulator.requestCount('/book/2')];
+    const result = await new Scraper({ logger, resume: true, config: { files: resumed } }).start();
+    assert.equal(result.complete, true);
+    assert.equal(simulator.requestCount('/book/1'), requests[0] + 1);
+    assert.equal(simulator.requestCount('/book/2'), requests[1]);
+
+    const saved = new Map((await readOutput(resumed.output)).map(book => [book.url, book]));
+    assert.ok(saved.get(earlier)!.lastSeenAt >= startedAt);
+    assert.equal(saved.get(earlier)!.title, 'Ανθολογία 1');
+  });
+
+  test('continues listing pages and books from where an interrupted crawl stopped', async () => {
+    const interrupted = files('interrupted');
+    const now = new Date();
+    // The crawl had read the first listing page, finished books 1 and 2, and was fetching book 3
+    await fs.writeFile(interrupted.checkpoint, JSON.stringify({
+      pendingLinks: [4].map(book => simulator.bookUrl(book)),
+      inFlightLinks: [simulator.bookUrl(3)],
+      completedLinks: [1, 2].map(book => simulator.bookUrl(book)),
+      failedLinks: [],
+      nextPageUrls: { '/sygrafeas/anthologia-1466': `${baseUrl}${LISTING_PAGES[1]}` },
+      linkSeeds: {},
+      linksComplete: false,
+      processedLinks: 2,
+      totalLinks: 4,
+      startedAt: now,
+      lastUpdatedAt: now,
+    }));
+
+    const before = pageRequests();
+    const result = await new Scraper({ logger, resume: true, config: { files: interrupted } }).start();
+    assert.equal(result.complete, true);
+
+    // Every page the crawl had not finished was fetched once, and nothing it had finished again
+    const fetched = pageRequests().map((count, i) => count - before[i]);
+    const [firstPage, ...laterPages] = fetched.slice(0, LISTING_PAGES.length);
+    const books = fetched.slice(LISTING_PAGES.length);
+    assert.equal(firstPage, 0);
+    assert.deepEqual(laterPages, [1, 1]);
+    assert.deepEqual(books.slice(0, 4), [0, 0, 1, 1]);
+
+    const saved = await readOutput(interrupted.output);
+    assert.deepEqual(saved.map(book => book.url).sort(), expectedSaved([1, 2, 5, 10]).sort());
+  });
+});
+
+describe('retry:failed', () => {
+  test('scrapes dead-lettered books again under their seeds, keeping only those that fail again', async () => {
+    const retried = files('retried');
+    const failedAt = new Date();
+    const seed = simulator.listingFor(4);
+    const records: ScrapingErrorRecord[] = [
+      { url: simulator.bookUrl(4), errorType: 'NetworkError', error: 'HTTP 503', timestamp: failedAt, attemptCount: 3, seed },
+      { url: simulator.bookUrl(5), errorType: 'ParseError', error: 'No title', timestamp: failedAt, attemptCount: 3, seed },
+    ];
+    await fs.writeFile(retried.deadLetter, records.map(record => JSON.stringify(record)).join('\n') + '\n');
+
+    // Book 5 is still broken, so the retry exits non-zero
+    const flags = ['--output', retried.output, '--checkpoint-file', retried.checkpoint, '--dead-letter-file', retried.deadLetter];
+    assert.equal(await runCli(['retry', ...flags], { out: () => undefined, err: () => undefined }), 1);
+
+    const saved = await readOutput(retried.output);
+    assert.deepEqual(saved.map(book => [book.url, book.seed]), [[simulator.bookUrl(4), seed]]);
+    const stillFailing = (await fs.readFile(retried.deadLetter, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+    assert.deepEqual(
+      stillFailing.map(record => [record.url, record.errorType, record.attemptCount, record.seed]),
+      [[simulator.bookUrl(5), 'ParseError', 6, seed]]
+    );
+  });
+});
+
+describe('keyed output', () => {
+  for (const extension of ['db', 'csv']) {
+    test(`a second crawl into ${extension} output updates each book, keeping when it was first seen`, async () => {
+      const upserted = files(`upserted-${extension}`, extension);
+      await new Scraper({ logger, config: { files: upserted } }).start();
+      const first = new Map((await openOutputFile(upserted.output, logger).readAll()).map(book => [book.url, book]));
+      await new Scraper({ logger, config: { files: upserted } }).start();
+      const second = await openOutputFile(upserted.output, logger).readAll();
+
+      assert.deepEqual(second.map(book => book.url).sort(), expectedSaved([5, 10]).sort());
+      for (const book of second) {
+        const earlier = first.get(book.url)!;
+        assert.equal(book.firstSeenAt.getTime(), earlier.firstSeenAt.getTime());
+        assert.ok(book.lastSeenAt > earlier.lastSeenAt, `${book.url} was not seen again`);
+      }
+    });
+  }
+});
+
+describe('page archive', () => {
+  test('replays a recorded crawl without requesting any page again', async () => {
+    const directory = path.join(workDir, 'archive');
+    const recorded = files('recorded');
+    await new Scraper({ logger, config: { files: recorded, scraping: { archive: { mode: 'record', directory } } } }).start();
+
+    const before = pageRequests();
+    const replayed = files('replayed');
+    await new Scraper({ logger, config: { files: replayed, scraping: { archive: { mode: 'replay', directory } } } }).start();
+    assert.deepEqual(pageRequests(), before);
+
+    const summarize = async (file: string) => (await readOutput(file))
+      .map(book => [book.url, book.title, book.recommendationsCount])
+      .sort();
+    assert.deepEqual(await summarize(replayed.output), await summarize(recorded.output));
+    assert.equal((await readOutput(replayed.output)).length, expectedSaved([5, 10]).length);
+  });
+});
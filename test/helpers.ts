@@ -0,0 +1,74 @@
+import { after } from 'node:test';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { SiteSimulator, SiteSimulatorOptions } from '../src/testing/siteSimulator.js';
+import type { Logger } from '../src/types.js';
+
+/**
+ * Logger that discards everything, for services under test
+ */
+export const logger: Logger = {
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  debug: () => undefined,
+  child: () => logger,
+};
+
+/**
+ * A simulated site and a scratch directory set up for one test file
+ */
+export interface TestEnvironment {
+  simulator: SiteSimulator;
+  baseUrl: string;
+  workDir: string;
+}
+
+/**
+ * Creates a scratch directory that is removed after the test file's tests
+ */
+export const makeWorkDir = async (name: string): Promise<string> => {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), `polit-${name}-`));
+  after(() => fs.rm(workDir, { recursive: true, force: true }));
+  return workDir;
+};
+
+/**
+ * Starts a simulated site and points the environment at it, crawling over HTTP with its files in a scratch directory
+ * Configuration is read from the environment when the config module is first imported,
+ * so test files call this before importing anything from src
+ * @param env - Variables on top of the defaults, given the site's URL and the scratch directory; undefined unsets one
+ */
+export const setUpTestEnvironment = async (
+  name: string,
+  site: Partial<SiteSimulatorOptions>,
+  env: (context: { baseUrl: string; workDir: string }) => Record<string, string | undefined> = () => ({})
+): Promise<TestEnvironment> => {
+  const simulator = new SiteSimulator(site);
+  const baseUrl = await simulator.start();
+  after(() => simulator.stop());
+  const workDir = await makeWorkDir(name);
+
+  const variables: Record<string, string | undefined> = {
+    BASE_URL: baseUrl,
+    BOOK_LIST_PATH: '/sygrafeas/anthologia-1466',
+    LINKS_FETCHER: 'http',
+    DETAILS_FETCHER: 'http',
+    RATE_LIMIT: '100000',
+    LOG_LEVEL: 'error',
+    OUTPUT_FILE: path.join(workDir, 'books.jsonl'),
+    CHECKPOINT_FILE: path.join(workDir, 'checkpoint.json'),
+    DEAD_LETTER_FILE: path.join(workDir, 'dead-letter.jsonl'),
+    ...env({ baseUrl, workDir }),
+  };
+  for (const [key, value] of Object.entries(variables)) {
+    if (value === undefined) {
+      delete process.env[key];
+    } else {
+      process.env[key] = value;
+    }
+  }
+
+  return { simulator, baseUrl, workDir };
+};
@@ -0,0 +1,129 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { setUpTestEnvironment } from './helpers.js';
+
+// Book 2 fails once before it loads
+const { simulator, workDir } = await setUpTestEnvironment(
+  'logger',
+  { pageCount: 1, booksPerPage: 3, recommendations: () => 1, failingBooks: { 2: 1 } },
+  ({ workDir }) => ({ MAX_RETRIES: '1', LOG_LEVEL: 'info', LOG_FILE: path.join(workDir, 'logs', 'scraper.log') })
+);
+const logFile = process.env.LOG_FILE!;
+
+const { JsonLogger, RotatingFileWriter, createLogger } = await import('../src/logger.js');
+const { getConfig } = await import('../src/config.js');
+const { retry } = await import('../src/utils.js');
+const { main } = await import('../src/index.js');
+
+/**
+ * Reads a JSON-lines log file
+ */
+const readEntries = async (filePath: string): Promise<Record<string, any>[]> =>
+  (await fs.readFile(filePath, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+
+describe('JsonLogger', () => {
+  test('writes one JSON entry per line with the run id and child bindings, above the minimum level', async () => {
+    const filePath = path.join(workDir, 'levels.log');
+    const logger = new JsonLogger({
+      level: 'info',
+      runId: 'run-1',
+      console: false,
+      file: new RotatingFileWriter(filePath, 1024 * 1024, 2)
+    });
+
+    logger.debug('Dropped below the minimum level');
+    logger.info('Started', { seeds: 2 });
+    logger.child({ url: 'https://example.com/book/1', operation: 'book' })
+      .error('Failed', new TypeError('boom'), { attempt: 3 });
+
+    const entries = await readEntries(filePath);
+    assert.equal(entries.length, 2);
+    assert.deepEqual(
+      { ...entries[0], time: undefined },
+      { time: undefined, level: 'info', runId: 'run-1', msg: 'Started', seeds: 2 }
+    );
+    assert.equal(entries[1].level, 'error');
+    assert.equal(entries[1].runId, 'run-1');
+    assert.equal(entries[1].url, 'https://example.com/book/1');
+    assert.equal(entries[1].operation, 'book');
+    assert.equal(entries[1].attempt, 3);
+    assert.equal(entries[1].error.name, 'TypeError');
+    assert.equal(entries[1].error.message, 'boom');
+    assert.ok(!Number.isNaN(Date.parse(entries[1].time)));
+  });
+
+  test('rotates the log file once it reaches its size limit, keeping the newest files', async () => {
+    const filePath = path.join(workDir, 'rotating.log');
+    const logger = new JsonLogger({
+      level: 'debug',
+      runId: 'run-2',
+      console: false,
+      file: new RotatingFileWriter(filePath, 300, 2)
+    });
+
+    for (let i = 0; i < 12; i++) {
+      logger.info(`Entry ${i}`, { padding: 'x'.repeat(60) });
+    }
+
+    const files = (await fs.readdir(workDir)).filter(name => name.startsWith('rotating.log')).sort();
+    assert.deepEqual(files, ['rotating.log', 'rotating.log.1', 'rotating.log.2']);
+    for (const name of files) {
+      assert.ok((await fs.stat(path.join(workDir, name))).size <= 300);
+    }
+
+    // The newest entry is in the live file and older ones move down the numbered files
+    const current = await readEntries(filePath);
+    const previous = await readEntries(`${filePath}.1`);
+    assert.equal(current[current.length - 1].msg, 'Entry 11');
+    assert.ok(Number(previous[previous.length - 1].msg.split(' ')[1]) < Number(current[0].msg.split(' ')[1]));
+  });
+});
+
+describe('retry', () => {
+  test('logs failed attempts through the injected logger', async () => {
+    const filePath = path.join(workDir, 'retry.log');
+    const logger = new JsonLogger({
+      level: 'info',
+      runId: 'run-3',
+      console: false,
+      file: new RotatingFileWriter(filePath, 1024 * 1024, 1)
+    });
+
+    let calls = 0;
+    const result = await retry(
+      async () => {
+        if (++calls < 3) {
+          throw new Error(`failure ${calls}`);
+        }
+        return 'done';
+      },
+      { maxAttempts: 3, delayMs: 1, backoffFactor: 2 },
+      'https://example.com/book/7',
+      logger.child({ url: 'https://example.com/book/7' })
+    );
+
+    assert.equal(result, 'done');
+    const entries = await readEntries(filePath);
+    assert.deepEqual(entries.map(entry => [entry.level, entry.url, entry.attempt, entry.error.message]), [
+      ['warn', 'https://example.com/book/7', 1, 'failure 1'],
+      ['warn', 'https://example.com/book/7', 2, 'failure 2'],
+    ]);
+  });
+});
+
+describe('crawl logs', () => {
+  test('carry the run id throughout and the URL of every entry about a book', async () => {
+    await main({ resume: false }, createLogger(getConfig(), 'crawl-run'));
+
+    const entries = await readEntries(logFile);
+    assert.ok(entries.length > 0);
+    assert.ok(entries.every(entry => entry.runId === 'crawl-run'));
+
+    // The entries for the failing book can be pulled out by its URL
+    const book = entries.filter(entry => entry.url === simulator.bookUrl(2));
+    assert.ok(book.some(entry => entry.level === 'warn' && entry.msg.startsWith('Attempt 1 failed')));
+    assert.ok(book.some(entry => entry.operation === 'book'));
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import net, { AddressInfo } from 'net';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+/**
+ * Finds a local port nothing is listening on
+ */
+const findFreePort = async (): Promise<number> => {
+  const server = net.createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+};
+const metricsPort = await findFreePort();
+
+// Books 1..6 on two listing pages; every third book has no recommendations
+const { workDir } = await setUpTestEnvironment('metrics', {
+  pageCount: 2,
+  booksPerPage: 3,
+  brokenBooks: [4],
+  slowBooks: [5],
+  slowResponseMs: 1500,
+  failingBooks: { 2: 1 },
+  failingListingPages: { 2: 1 },
+}, () => ({
+  MAX_RETRIES: '1',
+  // Books without recommendations are filtered out, so they count as skipped
+  MIN_RECOMMENDATIONS: '1',
+  METRICS_PORT: String(metricsPort),
+  STALL_TIMEOUT: '60000',
+}));
+
+const { getConfig } = await import('../src/config.js');
+const { scrapeBookLinks } = await import('../src/linkScraper.js');
+const { scrapeBookDetails } = await import('../src/detailsScraper.js');
+const { main } = await import('../src/index.js');
+const { runCli } = await import('../src/cli.js');
+const { createFetcher } = await import('../src/services/fetcher.js');
+const { createSiteAdapter } = await import('../src/adapters/index.js');
+const { LinkQueue } = await import('../src/services/linkQueue.js');
+const { StorageService } = await import('../src/services/storage.js');
+const { DeadLetterStore } = await import('../src/services/deadLetter.js');
+const { JsonLinesSink } = await import('../src/services/sinks/index.js');
+const { MetricsFetcher, MetricsServer, ScraperMetrics } = await import('../src/services/metrics.js');
+
+/**
+ * Reads one sample from Prometheus text output
+ */
+const sample = (text: string, series: string): number | undefined => {
+  const line = text.split('\n').find(candidate => candidate.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+};
+
+describe('metrics endpoint', () => {
+  test('exposes fetch, book, retry, queue and throttle metrics for a crawl', async () => {
+    const config = getConfig();
+    const adapter = createSiteAdapter(config);
+    const metrics = new ScraperMetrics();
+    const linkQueue = new LinkQueue(logger);
+    const linkFetcher = createFetcher('http', config, logger);
+    metrics.watchQueue(linkQueue);
+    metrics.watchThrottle(() => linkFetcher.getThrottleStats());
+
+    const server = new MetricsServer(metrics, { ...config, metrics: { ...config.metrics, port: 0 } }, logger);
+    const url = await server.start();
+    try {
+      const storageService = new StorageService(logger, new JsonLinesSink(path.join(workDir, 'direct.jsonl'), logger));
+      const deadLetterStore = new DeadLetterStore(path.join(workDir, 'direct-dead-letter.jsonl'), logger);
+      await scrapeBookLinks(adapter, new MetricsFetcher(linkFetcher, metrics, 'links'), logger, linkQueue, { metrics });
+      await scrapeBookDetails(
+        adapter,
+        new MetricsFetcher(createFetcher('http', config, logger), metrics, 'details'),
+        storageService,
+        logger,
+        linkQueue,
+        { deadLetterStore, metrics }
+      );
+      await storageService.close();
+
+      const response = await fetch(`${url}/metrics`);
+      assert.equal(response.status, 200);
+      assert.match(response.headers.get('content-type') ?? '', /^text\/plain; version=0\.0\.4/);
+      const text = await response.text();
+
+      // Listing page 2 answers 503 once
+      assert.equal(sample(text, 'polit_pages_fetched_total{phase="links",outcome="200"}'), 2);
+      assert.equal(sample(text, 'polit_pages_fetched_total{phase="links",outcome="error"}'), 1);
+      // Book 2 answers 503 once, and the broken book 4 is fetched on each of its three attempts
+      assert.equal(sample(text, 'polit_pages_fetched_total{phase="details",outcome="200"}'), 8);
+      assert.equal(sample(text, 'polit_pages_fetched_total{phase="details",outcome="error"}'), 1);
+      assert.equal(sample(text, 'polit_fetch_duration_seconds_count{phase="details"}'), 9);
+      assert.equal(sample(text, 'polit_fetch_duration_seconds_bucket{phase="details",le="+Inf"}'), 9);
+      assert.ok(sample(text, 'polit_fetch_duration_seconds_sum{phase="details"}')! >= 1.5);
+
+      assert.equal(sample(text, 'polit_books_total{outcome="saved"}'), 3);
+      assert.equal(sample(text, 'polit_books_total{outcome="skipped"}'), 2);
+      assert.equal(sample(text, 'polit_books_total{outcome="failed"}'), 1);
+      assert.equal(sample(text, 'polit_retries_total{error="NetworkError"}'), 2);
+      assert.equal(sample(text, 'polit_retries_total{error="Error"}'), undefined);
+      assert.equal(sample(text, 'polit_retries_total{error="ParseError"}'), 2);
+
+      assert.equal(sample(text, 'polit_queue_pending'), 0);
+      assert.equal(sample(text, 'polit_queue_in_flight'), 0);
+      // The listing page's 503 halved the rate
+      assert.equal(sample(text, 'polit_throttle_rate_per_minute'), 50000);
+      assert.equal(sample(text, 'polit_throttle_next_request_seconds'), 0);
+
+      const health = await fetch(`${url}/healthz`);
+      assert.equal(health.status, 200);
+      const report = await health.json();
+      assert.equal(report.status, 'ok');
+      assert.equal(report.phases.links.state, 'completed');
+      assert.equal(report.phases.details.state, 'completed');
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('reports a running phase without progress as stalled, and a failed phase as failed', async () => {
+    const metrics = new ScraperMetrics();
+    metrics.startPhase('links');
+    metrics.startPhase('details');
+    metrics.recordProgress('details');
+
+    const later = new Date(Date.now() + 10 * 60 * 1000);
+    assert.equal(metrics.getHealth(60000).status, 'ok');
+    const stalled = metrics.getHealth(60000, later);
+    assert.equal(stalled.status, 'stalled');
+    assert.equal(stalled.phases.links.stalled, true);
+
+    metrics.endPhase('details', true);
+    const server = new MetricsServer(metrics, { ...getConfig(), metrics: { ...getConfig().metrics, port: 0 } }, logger);
+    const url = await server.start();
+    try {
+      const response = await fetch(`${url}/healthz`);
+      assert.equal(response.status, 503);
+      assert.equal((await response.json()).status, 'failed');
+      assert.equal((await fetch(`${url}/elsewhere`)).status, 404);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test('runs alongside a crawl when METRICS_PORT is set', async () => {
+    const crawl = main({ resume: false });
+
+    // The slow book keeps the crawl going long enough to look at it
+    let health: Response | null = null;
+    for (let attempt = 0; attempt < 50 && !health; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      health = await fetch(`http://127.0.0.1:${metricsPort}/healthz`).catch(() => null);
+    }
+    assert.ok(health, 'the health endpoint never came up');
+    assert.equal(health.status, 200);
+    const report = await health.json();
+    assert.equal(report.status, 'ok');
+    assert.equal(report.phases.details.state, 'running');
+
+    await crawl;
+    await assert.rejects(fetch(`http://127.0.0.1:${metricsPort}/healthz`));
+  });
+
+  test('runs alongside the links and details commands too', async () => {
+    const flags = [
+      '--output', path.join(workDir, 'phases.jsonl'),
+      '--checkpoint-file', path.join(workDir, 'phases-checkpoint.json'),
+      '--dead-letter-file', path.join(workDir, 'phases-dead-letter.jsonl'),
+    ];
+    const quiet = { out: () => undefined, err: () => undefined };
+    assert.equal(await runCli(['links', ...flags], quiet), 0);
+    await assert.rejects(fetch(`http://127.0.0.1:${metricsPort}/healthz`));
+
+    const details = runCli(['details', ...flags], quiet);
+    let health: Response | null = null;
+    for (let attempt = 0; attempt < 50 && !health; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      health = await fetch(`http://127.0.0.1:${metricsPort}/healthz`).catch(() => null);
+    }
+    assert.ok(health, 'the health endpoint never came up');
+    assert.equal(health.status, 200);
+    const report = await health.json();
+    assert.equal(report.phases.links.state, 'pending');
+    assert.equal(report.phases.details.state, 'running');
+
+    // Book 4 fails every attempt, so the details run ends incomplete
+    await details;
+    await assert.rejects(fetch(`http://127.0.0.1:${metricsPort}/healthz`));
+  });
+});
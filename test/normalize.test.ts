@@ -0,0 +1,144 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger, makeWorkDir } from './helpers.js';
+
+const workDir = await makeWorkDir('normalize');
+
+const { canonicalAuthorKey, matchKey, normalizeText, transliterate } = await import('../src/normalize.js');
+const { loadConfig } = await import('../src/config.js');
+const { RecordFilter } = await import('../src/services/recordFilter.js');
+const { CsvSink, SqliteSink } = await import('../src/services/sinks/index.js');
+import type { ExtractedBook } from '../src/types.js';
+
+describe('text normalization', () => {
+  test('composes accents, collapses whitespace and fixes the sigma forms', () => {
+    assert.equal(normalizeText('  Κωστής \n Παλαμάς '), 'Κωστής Παλαμάς');
+    assert.equal(normalizeText('Κωστής'), 'Κωστής');
+    assert.equal(normalizeText('Παλαμάσ, Κωςτής'), 'Παλαμάς, Κωστής');
+    assert.equal(normalizeText('ΠΑΛΑΜΑΣ'), 'ΠΑΛΑΜΑΣ');
+  });
+
+  test('match keys ignore accents, case and sigma form', () => {
+    assert.equal(matchKey('ΠΟΙΗΣΗ'), matchKey('Ποίηση'));
+    assert.equal(matchKey('Ποίηση'), 'ποιηση');
+    assert.equal(matchKey('Ελύτης'), matchKey('ελυτησ'));
+    assert.notEqual(matchKey('Ποίηση'), matchKey('Πεζογραφία'));
+  });
+
+  test('author keys do not depend on name order, accents or initials', () => {
+    const key = canonicalAuthorKey('Κωστής Παλαμάς');
+    assert.equal(key, 'κωστησ παλαμασ');
+    assert.equal(canonicalAuthorKey('Παλαμάς, Κωστής'), key);
+    assert.equal(canonicalAuthorKey(' ΚΩΣΤΗΣ  ΠΑΛΑΜΑΣ '), key);
+    assert.equal(canonicalAuthorKey('Καβάφης, Κ. Π.'), canonicalAuthorKey('Κ.Π. Καβάφης'));
+  });
+});
+
+describe('ELOT 743 transliteration', () => {
+  test('transliterates letters, digraphs and diphthongs', () => {
+    assert.equal(transliterate('Κωστής Παλαμάς'), 'Kostis Palamas');
+    assert.equal(transliterate('Ανθολογία νεοελληνικής ποίησης'), 'Anthologia neoellinikis poiisis');
+    assert.equal(transliterate('Οδυσσέας Ελύτης'), 'Odysseas Elytis');
+    assert.equal(transliterate('Άγγελος Σικελιανός'), 'Angelos Sikelianos');
+    assert.equal(transliterate('Νίκος Καζαντζάκης'), 'Nikos Kazantzakis');
+    assert.equal(transliterate('Ψυχή και θάλασσα'), 'Psychi kai thalassa');
+  });
+
+  test('reads αυ and ευ as v or f depending on the next letter', () => {
+    assert.equal(transliterate('Ευγενία'), 'Evgenia');
+    assert.equal(transliterate('αύριο'), 'avrio');
+    assert.equal(transliterate('αυτός'), 'aftos');
+    assert.equal(transliterate('Ευθύμιος'), 'Efthymios');
+  });
+
+  test('writes μπ as b at the ends of a word and mp inside it', () => {
+    assert.equal(transliterate('Μπάμπης'), 'Bampis');
+    assert.equal(transliterate('κομπρεσέρ'), 'kompreser');
+  });
+
+  test('keeps diaeresis vowels apart and capitals in capitals', () => {
+    assert.equal(transliterate('Μαΐου'), 'Maiou');
+    assert.equal(transliterate('αϋπνία'), 'aypnia');
+    assert.equal(transliterate('ΘΕΑΤΡΟ'), 'THEATRO');
+    assert.equal(transliterate('Θέατρο'), 'Theatro');
+    assert.equal(transliterate('Ποίηση 1920-1930'), 'Poiisi 1920-1930');
+  });
+});
+
+describe('normalized names in filters and output', () => {
+  const book: ExtractedBook = {
+    title: 'Ανθολογία νεοελληνικής ποίησης',
+    author: 'Κωστής Παλαμάς',
+    recommendationsCount: 0,
+    url: 'https://www.politeianet.gr/books/1',
+    scrapedAt: new Date('2024-03-01T10:00:00Z'),
+    isbn: null,
+    publisher: null,
+    publicationYear: null,
+    pageCount: null,
+    listPrice: null,
+    price: null,
+    availability: null,
+    categories: ['Αρχική', 'Ποίηση'],
+    coverImageUrl: null,
+  };
+
+  test('filters match authors and categories however they are written', () => {
+    const filters = loadConfig({
+      overrides: { filters: { authors: { exclude: ['ΠΑΛΑΜΑΣ, ΚΩΣΤΗΣ'] }, categories: { include: ['ποιηση'] } } }
+    }).filters;
+    const filter = new RecordFilter(filters, logger);
+    assert.equal(filter.rejects(book), 'authors.exclude');
+    assert.equal(filter.rejects({ ...book, author: 'Οδυσσέας Ελύτης' }), null);
+  });
+
+  test('CSV files of the first release get the name fields on load, one record per book', async () => {
+    // Appended without a header, the same book once per run
+    const csvFile = path.join(workDir, 'first-release.csv');
+    await fs.writeFile(
+      csvFile,
+      `Ανθολογία,"Παλαμάς, Κωστής",2,${book.url},2024-03-01T10:00:00.000Z\n` +
+        `Ανθολογία,"Παλαμάς, Κωστής",3,${book.url},2024-03-08T10:00:00.000Z\n`
+    );
+
+    const books = await new CsvSink(csvFile, null, logger).readAll();
+    assert.equal(books.length, 1);
+    const [fromCsv] = books;
+    assert.deepEqual(
+      [fromCsv.authorKey, fromCsv.authorLatin, fromCsv.titleLatin],
+      ['κωστησ παλαμασ', 'Palamas, Kostis', 'Anthologia']
+    );
+    assert.equal(fromCsv.recommendationsCount, 3);
+    assert.deepEqual(
+      [fromCsv.firstSeenAt.toISOString(), fromCsv.lastSeenAt.toISOString()],
+      ['2024-03-01T10:00:00.000Z', '2024-03-08T10:00:00.000Z']
+    );
+  });
+
+  test('SQLite output keeps the name columns', async () => {
+    const dbFile = path.join(workDir, 'books.db');
+    const sink = new SqliteSink(dbFile, logger);
+    await sink.write([{ ...book, seed: null, authorKey: 'κωστησ παλαμασ', authorLatin: 'Kostis Palamas', titleLatin: 'Anthologia' }]);
+    await sink.close();
+
+    const [stored] = await new SqliteSink(dbFile, logger).readAll();
+    assert.deepEqual([stored.authorKey, stored.authorLatin, stored.titleLatin], ['κωστησ παλαμασ', 'Kostis Palamas', 'Anthologia']);
+  });
+
+  test('SQLite output saves rows again after a failed save', async () => {
+    const dbFile = path.join(workDir, 'unsaved.db');
+    const sink = new SqliteSink(dbFile, logger);
+    await sink.write([{ ...book, seed: null, authorKey: 'κωστησ παλαμασ', authorLatin: 'Kostis Palamas', titleLatin: 'Anthologia' }]);
+
+    // A directory where the temporary file goes makes the save fail
+    await fs.mkdir(`${dbFile}.tmp`);
+    await assert.rejects(sink.flush());
+    await fs.rmdir(`${dbFile}.tmp`);
+
+    await sink.close();
+    const stored = await new SqliteSink(dbFile, logger).readAll();
+    assert.deepEqual(stored.map(saved => saved.title), [book.title]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import cheerio from 'cheerio';
+import { setUpTestEnvironment } from './helpers.js';
+
+// Joomla-style listing paged by item offset, whose last page links back to the first
+const { simulator } = await setUpTestEnvironment('pagination', {
+  pageCount: 4,
+  booksPerPage: 3,
+  pageParameter: 'limitstart',
+  loopLastPage: true,
+});
+
+const { getConfig } = await import('../src/config.js');
+const { discoverPagination } = await import('../src/pagination.js');
+const { scrapeBookLinks } = await import('../src/linkScraper.js');
+const { createFetcher } = await import('../src/services/fetcher.js');
+const { createSiteAdapter } = await import('../src/adapters/index.js');
+const { LinkQueue } = await import('../src/services/linkQueue.js');
+import type { Logger } from '../src/types.js';
+
+const messages: { level: string; message: string }[] = [];
+const logger: Logger = {
+  info: message => messages.push({ level: 'info', message }),
+  warn: message => messages.push({ level: 'warn', message }),
+  error: message => messages.push({ level: 'error', message }),
+  debug: () => undefined,
+  child: () => logger,
+};
+
+const selectors = { pagination: '.pagination', nextPage: '.pagination .pagination-next a' };
+const discover = (html: string, url: string) => discoverPagination(cheerio.load(html), url, selectors);
+
+describe('discoverPagination', () => {
+  test('prefers rel="next" over the pager', () => {
+    const info = discover(
+      `<html><head><link rel="next" href="/list?page=3"></head><body>
+        <ul class="pagination"><li><a href="/list?page=9">Επόμενη</a></li></ul>
+      </body></html>`,
+      'https://example.com/list?page=2'
+    );
+    assert.equal(info.nextUrl, 'https://example.com/list?page=3');
+    assert.equal(info.source, 'rel');
+    assert.equal(info.currentPage, 2);
+  });
+
+  test('finds the next arrow whatever its position in the pager', () => {
+    const info = discover(
+      `<ul class="pagination">
+        <li><span>1</span></li><li><a href="/list?page=2">2</a></li>
+        <li><a href="/list?page=2" title="Επόμενη">›</a></li><li><a href="/list?page=7">Τέλος</a></li>
+      </ul>`,
+      'https://example.com/list'
+    );
+    assert.equal(info.nextUrl, 'https://example.com/list?page=2');
+    assert.equal(info.source, 'arrow');
+    assert.equal(info.currentPage, 1);
+    assert.equal(info.totalPages, 7);
+  });
+
+  test('follows the limitstart of the next page when the pager has no arrow', () => {
+    const info = discover(
+      `<ul class="pagination">
+        <li><a href="/list?limitstart=0">1</a></li><li><span>2</span></li>
+        <li><a href="/list?limitstart=40">3</a></li><li><a href="/list?limitstart=100">6</a></li>
+      </ul>`,
+      'https://example.com/list?limitstart=20'
+    );
+    assert.equal(info.nextUrl, 'https://example.com/list?limitstart=40');
+    assert.equal(info.nextPage, 3);
+    assert.equal(info.source, 'parameter');
+    assert.equal(info.currentPage, 2);
+    assert.equal(info.totalPages, 6);
+  });
+
+  test('reports the last page when nothing leads further', () => {
+    const info = discover(
+      `<ul class="pagination">
+        <li><a href="/list?page=1">Αρχή</a></li><li><a href="/list?page=2">Προηγούμενη</a></li>
+        <li><a href="/list?page=2">2</a></li><li><span>3</span></li>
+      </ul>`,
+      'https://example.com/list?page=3'
+    );
+    assert.equal(info.nextUrl, null);
+    assert.equal(info.currentPage, 3);
+    assert.equal(info.totalPages, 3);
+  });
+});
+
+describe('scrapeBookLinks pagination', () => {
+  test('collects every page of a limitstart listing and stops when it cycles', async () => {
+    const linkQueue = new LinkQueue(logger);
+
+    await scrapeBookLinks(createSiteAdapter(getConfig()), createFetcher('http', getConfig(), logger), logger, linkQueue);
+
+    assert.deepEqual(
+      linkQueue.snapshot().pendingLinks,
+      Array.from({ length: simulator.bookCount }, (_, i) => simulator.bookUrl(i + 1))
+    );
+    assert.ok(messages.some(({ message }) => message.includes('has 4 listing pages')));
+    assert.ok(messages.some(({ level, message }) => level === 'warn' && message.includes('already visited')));
+    // The first page is never fetched a second time through the looping arrow
+    assert.equal(simulator.requestCount('/sygrafeas/anthologia-1466?limitstart=0'), 0);
+  });
+});
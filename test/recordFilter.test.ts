@@ -0,0 +1,84 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+// Books 1..6 on two listing pages; book N shows N % 3 recommendations and is by Συγγραφέας N % 5
+const { simulator, workDir } = await setUpTestEnvironment('filter', { pageCount: 2, booksPerPage: 3 });
+
+const { loadConfig } = await import('../src/config.js');
+const { runCli } = await import('../src/cli.js');
+const { RecordFilter } = await import('../src/services/recordFilter.js');
+const { JsonLinesSink } = await import('../src/services/sinks/index.js');
+import type { ConfigLayer, ExtractedBook } from '../src/types.js';
+
+const book: ExtractedBook = {
+  title: 'Ανθολογία νεοελληνικής ποίησης',
+  author: 'Κωστής Παλαμάς',
+  recommendationsCount: 0,
+  url: 'https://www.politeianet.gr/books/1',
+  scrapedAt: new Date(),
+  isbn: null,
+  publisher: null,
+  publicationYear: null,
+  pageCount: null,
+  listPrice: 18,
+  price: 15.3,
+  availability: null,
+  categories: ['Αρχική', 'Ποίηση', 'Ανθολογίες'],
+  coverImageUrl: null,
+};
+
+/**
+ * The filter a run with these configuration overrides would apply
+ */
+const filterFor = (filters: ConfigLayer['filters']) => new RecordFilter(loadConfig({ overrides: { filters } }).filters, logger);
+
+describe('record filter', () => {
+  test('keeps every book by default, including those without recommendations', () => {
+    assert.equal(filterFor({}).rejects(book), null);
+  });
+
+  test('names the first filter a book fails', () => {
+    assert.equal(filterFor({ minRecommendations: 1 }).rejects(book), 'minRecommendations');
+    assert.equal(filterFor({ minRecommendations: 1 }).rejects({ ...book, recommendationsCount: 1 }), null);
+
+    assert.equal(filterFor({ authors: { include: ['κωστής παλαμάς'] } }).rejects(book), null);
+    assert.equal(filterFor({ authors: { include: ['Οδυσσέας Ελύτης'] } }).rejects(book), 'authors.include');
+    assert.equal(filterFor({ authors: { exclude: ['ΚΩΣΤΉΣ ΠΑΛΑΜΆΣ'] } }).rejects(book), 'authors.exclude');
+
+    assert.equal(filterFor({ titlePattern: '^ανθολογία' }).rejects(book), null);
+    assert.equal(filterFor({ titlePattern: 'πεζογραφ' }).rejects(book), 'titlePattern');
+
+    assert.equal(filterFor({ categories: { include: ['Πεζογραφία', 'ποίηση'] } }).rejects(book), null);
+    assert.equal(filterFor({ categories: { include: ['Πεζογραφία'] } }).rejects(book), 'categories.include');
+    assert.equal(filterFor({ categories: { exclude: ['Ανθολογίες'] } }).rejects(book), 'categories.exclude');
+
+    assert.equal(filterFor({ price: { min: 10, max: 20 } }).rejects(book), null);
+    assert.equal(filterFor({ price: { min: 20 } }).rejects(book), 'price.min');
+    assert.equal(filterFor({ price: { max: 15 } }).rejects(book), 'price.max');
+  });
+
+  test('lets books through on categories and price their page does not show', () => {
+    const bare = { ...book, categories: [], price: null };
+    const filter = filterFor({ categories: { include: ['Πεζογραφία'], exclude: ['Ποίηση'] }, price: { min: 20 } });
+    assert.equal(filter.rejects(bare), null);
+  });
+
+  test('rejects a title pattern that is not a regular expression', () => {
+    assert.throws(() => loadConfig({ overrides: { filters: { titlePattern: 'Ανθολογία (' } } }), /filters\.titlePattern/);
+  });
+
+  test('filters a crawl from command-line flags', async () => {
+    const output = path.join(workDir, 'books.jsonl');
+    const quiet = { out: () => undefined, err: () => undefined };
+    const code = await runCli(
+      ['crawl', '--output', output, '--min-recommendations', '1', '--exclude-authors', 'Συγγραφέας 0'],
+      quiet
+    );
+    assert.equal(code, 0);
+
+    const saved = await new JsonLinesSink(output, logger).readAll();
+    assert.deepEqual(saved.map(saved => saved.url).sort(), [1, 2, 4].map(number => simulator.bookUrl(number)).sort());
+  });
+});
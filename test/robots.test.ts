@@ -0,0 +1,172 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SiteSimulator, SiteSimulatorOptions } from '../src/testing/siteSimulator.js';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+const CRAWL_DELAY_SECONDS = 0.2;
+
+// Book 3 is off limits to us, book 4 to every crawler, and requests must be spaced out
+const { simulator, workDir } = await setUpTestEnvironment('robots', {
+  pageCount: 2,
+  booksPerPage: 3,
+  recommendations: () => 1,
+  robotsTxt: [
+    'User-agent: *',
+    'Disallow: /book/4',
+    '',
+    'User-agent: otherbot',
+    'User-agent: polit',
+    'Disallow: /book/3$',
+    'Disallow: /book/4',
+    'Allow: /book/',
+    `Crawl-delay: ${CRAWL_DELAY_SECONDS}`,
+  ].join('\n'),
+}, () => ({ MAX_RETRIES: '1' }));
+
+const { parseRobotsTxt, findRule, RobotsService } = await import('../src/services/robots.js');
+const { getConfig } = await import('../src/config.js');
+const { main } = await import('../src/index.js');
+const { runCli } = await import('../src/cli.js');
+const { JsonLinesSink } = await import('../src/services/sinks/index.js');
+
+describe('parseRobotsTxt', () => {
+  const robotsTxt = [
+    '# Comments are ignored',
+    'User-agent: *',
+    'Disallow: /private/',
+    'Allow: /private/public',
+    'Disallow: /*.pdf$',
+    'Crawl-delay: 5',
+  ].join('\n');
+
+  test('falls back to the * group and picks the longest matching rule', () => {
+    const rules = parseRobotsTxt(robotsTxt, 'polit');
+    assert.equal(rules.crawlDelaySeconds, 5);
+    assert.equal(findRule(rules, '/private/notes')?.allow, false);
+    assert.equal(findRule(rules, '/private/public/page')?.allow, true);
+    assert.equal(findRule(rules, '/files/catalogue.pdf')?.allow, false);
+    assert.equal(findRule(rules, '/files/catalogue.pdf?page=2'), null);
+    assert.equal(findRule(rules, '/books'), null);
+  });
+
+  test('prefers the group naming our user agent', () => {
+    const rules = parseRobotsTxt(`${robotsTxt}\n\nUser-agent: Polit\nDisallow: /`, 'polit');
+    assert.equal(rules.crawlDelaySeconds, null);
+    assert.equal(findRule(rules, '/private/public')?.allow, false);
+  });
+});
+
+describe('robots.txt compliance', () => {
+  test('skips disallowed books and spaces requests by the Crawl-delay', async () => {
+    const startedAt = Date.now();
+    await main({ resume: false });
+    const elapsed = Date.now() - startedAt;
+
+    const books = await new JsonLinesSink(path.join(workDir, 'books.jsonl'), logger).readAll();
+    assert.deepEqual(
+      books.map(book => book.url).sort(),
+      [1, 2, 5, 6].map(book => simulator.bookUrl(book)).sort()
+    );
+    assert.equal(simulator.requestCount('/book/3'), 0);
+    assert.equal(simulator.requestCount('/book/4'), 0);
+
+    // Skipped books are not failures to retry
+    const deadLetter = await fs.readFile(path.join(workDir, 'dead-letter.jsonl'), 'utf-8').catch(() => '');
+    assert.equal(deadLetter.trim(), '');
+
+    // Two listing pages and four books, each at least a Crawl-delay after the previous one
+    assert.ok(elapsed >= 5 * CRAWL_DELAY_SECONDS * 1000, `finished in ${elapsed}ms`);
+  });
+
+  test('a cancelled request stops waiting out the Crawl-delay', async () => {
+    const robots = new RobotsService(getConfig(), logger);
+    await robots.waitForTurn(simulator.bookUrl(1));
+
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+    setTimeout(() => controller.abort(reason), 20);
+    const startedAt = Date.now();
+    await assert.rejects(robots.waitForTurn(simulator.bookUrl(2), controller.signal), error => error === reason);
+    assert.ok(Date.now() - startedAt < CRAWL_DELAY_SECONDS * 1000, 'waited out the Crawl-delay');
+  });
+});
+
+describe('unavailable robots.txt', () => {
+  /**
+   * Crawls a site of its own from the command line, retrying quickly
+   * @returns The exit code and the saved checkpoint
+   */
+  const crawl = async (name: string, baseUrl: string) => {
+    const output = path.join(workDir, `${name}.jsonl`);
+    const checkpoint = path.join(workDir, `${name}-checkpoint.json`);
+    const flags = [
+      '--base-url', baseUrl, '--retry-delay', '50',
+      '--output', output, '--checkpoint-file', checkpoint, '--dead-letter-file', path.join(workDir, `${name}-dead-letter.jsonl`),
+    ];
+    const code = await runCli(['crawl', ...flags], { out: () => undefined, err: () => undefined });
+    return {
+      code,
+      books: await new JsonLinesSink(output, logger).readAll(),
+      checkpoint: JSON.parse(await fs.readFile(checkpoint, 'utf-8')),
+    };
+  };
+
+  /**
+   * Starts a small site of its own, one listing page of two books
+   */
+  const startSite = async (options: Partial<SiteSimulatorOptions>) => {
+    const site = new SiteSimulator({ pageCount: 1, booksPerPage: 2, ...options });
+    return { site, baseUrl: await site.start() };
+  };
+
+  test('asks again after a server error instead of keeping it', async () => {
+    const { site, baseUrl } = await startSite({ failingRobotsTxt: 1 });
+    try {
+      const { code, books } = await crawl('robots-503-once', baseUrl);
+      assert.equal(code, 0);
+      assert.equal(books.length, 2);
+      assert.equal(site.requestCount('/robots.txt'), 2);
+    } finally {
+      await site.stop();
+    }
+  });
+
+  test('fails the run and leaves the seed to resume when robots.txt keeps answering 5xx', async () => {
+    const { site, baseUrl } = await startSite({ failingRobotsTxt: Infinity });
+    try {
+      const { code, books, checkpoint } = await crawl('robots-503', baseUrl);
+      assert.equal(code, 1);
+      assert.deepEqual(books, []);
+      assert.equal(checkpoint.linksComplete, false);
+      assert.deepEqual(checkpoint.nextPageUrls, {});
+      assert.equal(site.requestCount('/sygrafeas/anthologia-1466'), 0);
+    } finally {
+      await site.stop();
+    }
+  });
+
+  test('fails the run when the site cannot be reached', async () => {
+    const { site, baseUrl } = await startSite({});
+    await site.stop();
+
+    const { code, checkpoint } = await crawl('robots-unreachable', baseUrl);
+    assert.equal(code, 1);
+    assert.equal(checkpoint.linksComplete, false);
+  });
+});
+
+describe('ignoreCrawlDelay', () => {
+  test('lets requests through without waiting out the Crawl-delay', async () => {
+    const config = getConfig();
+    const robotsConfig = { ...config.scraping.robots, ignoreCrawlDelay: true };
+    const robots = new RobotsService({ ...config, scraping: { ...config.scraping, robots: robotsConfig } }, logger);
+
+    const startedAt = Date.now();
+    for (const book of [1, 2, 5]) {
+      await robots.waitForTurn(simulator.bookUrl(book));
+    }
+    assert.ok(Date.now() - startedAt < CRAWL_DELAY_SECONDS * 1000, 'waited out the Crawl-delay');
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SiteSimulator } from '../src/testing/siteSimulator.js';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+// Books 1..6 on two listing pages; every third book has no recommendations, book 4 has no title and book 5 is slow
+const { simulator, workDir } = await setUpTestEnvironment(
+  'scraper',
+  { pageCount: 2, booksPerPage: 3, brokenBooks: [4], slowBooks: [5], slowResponseMs: 1500 },
+  () => ({ RETRY_DELAY: '50' })
+);
+
+const { Scraper } = await import('../src/index.js');
+const { runCli } = await import('../src/cli.js');
+const { JsonLinesSink } = await import('../src/services/sinks/index.js');
+const { NetworkError } = await import('../src/types.js');
+import type { BookSkippedEvent, PageDoneEvent, ProgressEvent, ScraperErrorEvent } from '../src/types.js';
+
+/**
+ * Output, checkpoint and dead-letter files of their own for one test
+ */
+const files = (name: string) => ({
+  output: path.join(workDir, `${name}.jsonl`),
+  checkpoint: path.join(workDir, `${name}-checkpoint.json`),
+  deadLetter: path.join(workDir, `${name}-dead-letter.jsonl`),
+});
+
+const bookUrls = (books: number[]) => books.map(book => simulator.bookUrl(book)).sort();
+
+/**
+ * Resolves once the slow book has been requested again, i.e. is in flight
+ */
+const slowBookRequested = async () => {
+  const before = simulator.requestCount('/book/5');
+  while (simulator.requestCount('/book/5') === before) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('Scraper', () => {
+  test('announces pages, books, skips, failures and progress, and yields the saved books', async () => {
+    const scraper = new Scraper({ logger, config: { files: files('events'), filters: { minRecommendations: 1 } } });
+    const pages: PageDoneEvent[] = [];
+    const skipped: BookSkippedEvent[] = [];
+    const errors: ScraperErrorEvent[] = [];
+    const progress: ProgressEvent[] = [];
+    scraper.on('page:done', event => pages.push(event));
+    scraper.on('book:skipped', event => skipped.push(event));
+    scraper.on('error', event => errors.push(event));
+    scraper.on('progress', event => progress.push(event));
+
+    const books = [];
+    for await (const book of scraper) {
+      books.push(book);
+    }
+
+    assert.deepEqual(books.map(book => book.url).sort(), bookUrls([1, 2, 5]));
+    assert.deepEqual(skipped.map(event => event.url).sort(), bookUrls([3, 6]));
+    assert.ok(skipped.every(event => event.reason === 'filtered' && event.filter === 'minRecommendations'));
+    assert.deepEqual(errors.map(event => event.url), [simulator.bookUrl(4)]);
+    assert.match(errors[0].error.message, /Failed after 3 attempts/);
+
+    const listings = pages.filter(event => event.phase === 'links');
+    assert.equal(listings.length, 2);
+    assert.equal(listings.reduce((total, event) => total + (event.links ?? 0), 0), 6);
+    assert.deepEqual(pages.filter(event => event.phase === 'details').map(event => event.url).sort(), bookUrls([1, 2, 3, 4, 5, 6]));
+
+    const last = progress.filter(event => event.phase === 'details').at(-1);
+    assert.deepEqual(last && [last.processed, last.failed, last.pending, last.linksComplete], [5, 1, 0, true]);
+
+    // The books went to the configured output as well
+    const saved = await new JsonLinesSink(files('events').output, logger).readAll();
+    assert.deepEqual(saved.map(book => book.url).sort(), bookUrls([1, 2, 5]));
+    assert.throws(() => scraper.start(), /already been started/);
+  });
+
+  test('pauses between batches, and a stopped crawl resumes from its checkpoint', async () => {
+    const config = { files: files('stopped'), scraping: { maxConcurrent: 1 } };
+    const scraper = new Scraper({ logger, config });
+    let scraped = 0;
+    scraper.on('book:scraped', () => {
+      scraped++;
+      scraper.pause();
+    });
+
+    const run = scraper.start();
+    while (scraped === 0) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    await new Promise(resolve => setTimeout(resolve, 300));
+    assert.equal(scraper.paused, true);
+    assert.equal(scraped, 1);
+
+    await scraper.stop();
+    await run;
+    const checkpoint = JSON.parse(await fs.readFile(config.files.checkpoint, 'utf-8'));
+    assert.ok(checkpoint.pendingLinks.length > 0, 'nothing was left for the resumed run');
+
+    const resumed = new Scraper({ logger, config, resume: true });
+    const rest = [];
+    for await (const book of resumed) {
+      rest.push(book);
+    }
+    assert.equal(rest.length + scraped, 5);
+
+    const saved = await new JsonLinesSink(config.files.output, logger).readAll();
+    assert.deepEqual(saved.map(book => book.url).sort(), bookUrls([1, 2, 3, 5, 6]));
+  });
+
+  test('aborts pages still in flight after the grace period, keeping them for a resumed run', async () => {
+    const config = { files: files('cancelled') };
+    const scraper = new Scraper({ logger, config });
+    const errors: ScraperErrorEvent[] = [];
+    scraper.on('error', event => errors.push(event));
+
+    const run = scraper.start();
+    await slowBookRequested();
+    const stoppedAt = Date.now();
+    await scraper.stop(100);
+    assert.ok(Date.now() - stoppedAt < 1000, 'the slow book was waited for');
+
+    const result = await run;
+    assert.equal(result.complete, false);
+    assert.ok(result.pending >= 1);
+    assert.ok(!errors.some(event => event.url === simulator.bookUrl(5)), 'the cancelled book was reported as failed');
+
+    const checkpoint = JSON.parse(await fs.readFile(config.files.checkpoint, 'utf-8'));
+    assert.ok(checkpoint.pendingLinks.includes(simulator.bookUrl(5)));
+    assert.ok(!checkpoint.failedLinks.includes(simulator.bookUrl(5)));
+    const deadLetter = await fs.readFile(config.files.deadLetter, 'utf-8').catch(() => '');
+    assert.ok(!deadLetter.includes(simulator.bookUrl(5)));
+
+    const resumed = await new Scraper({ logger, config, resume: true }).start();
+    assert.equal(resumed.complete, true);
+    const saved = await new JsonLinesSink(config.files.output, logger).readAll();
+    assert.deepEqual(saved.map(book => book.url).sort(), bookUrls([1, 2, 3, 5, 6]));
+  });
+
+  test('a failed phase cancels the other instead of leaving it waiting for links', async () => {
+    const failingSite = new SiteSimulator({ pageCount: 2, booksPerPage: 3, failingListingPages: { 2: Infinity } });
+    const baseUrl = await failingSite.start();
+    try {
+      const scraper = new Scraper({ logger, config: { base: { url: baseUrl }, files: files('failed-phase') } });
+      await assert.rejects(scraper.start(), NetworkError);
+    } finally {
+      await failingSite.stop();
+    }
+  });
+
+  test('the command line exits with 128 plus the signal number when a signal cuts a crawl short', async () => {
+    const { output, checkpoint, deadLetter } = files('signalled');
+    const flags = ['--output', output, '--checkpoint-file', checkpoint, '--dead-letter-file', deadLetter, '--shutdown-grace', '100'];
+    const quiet = { out: () => undefined, err: () => undefined };
+
+    const crawl = runCli(['crawl', ...flags], quiet);
+    await slowBookRequested();
+    process.emit('SIGINT', 'SIGINT');
+    assert.equal(await crawl, 130);
+    assert.equal(process.listenerCount('SIGINT'), 0);
+
+    assert.equal(await runCli(['resume', ...flags], quiet), 0);
+    const saved = await new JsonLinesSink(output, logger).readAll();
+    assert.deepEqual(saved.map(book => book.url).sort(), bookUrls([1, 2, 3, 5, 6]));
+  });
+});
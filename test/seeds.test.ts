@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+// Two seeds of two pages each: books 1..4 are listed by the author, 5..8 by the publisher
+const { simulator, workDir } = await setUpTestEnvironment('seeds', {
+  listingPaths: ['/sygrafeas/anthologia-1466', '/ekdotis/polis-12'],
+  pageCount: 2,
+  booksPerPage: 2,
+  recommendations: () => 1,
+}, ({ workDir }) => ({
+  BOOK_LIST_PATH: undefined,
+  SEEDS: '/sygrafeas/anthologia-1466, /ekdotis/polis-12',
+  MAX_RETRIES: '1',
+  OUTPUT_FILE: path.join(workDir, 'books.csv'),
+}));
+
+const { main } = await import('../src/index.js');
+const { CsvSink } = await import('../src/services/sinks/index.js');
+
+describe('multi-seed crawl', () => {
+  test('paginates every seed and tags each book with the seed it was found under', async () => {
+    await main({ resume: false });
+
+    const books = await new CsvSink(path.join(workDir, 'books.csv'), null, logger).readAll();
+    assert.equal(books.length, simulator.bookCount);
+    for (const book of books) {
+      const number = Number(book.url.split('/').pop());
+      assert.equal(book.seed, simulator.listingFor(number), book.url);
+    }
+    assert.equal(simulator.requestCount('/ekdotis/polis-12?page=2'), 1);
+  });
+
+  test('keeps per-seed pagination state in the checkpoint', async () => {
+    const checkpoint = JSON.parse(await fs.readFile(path.join(workDir, 'checkpoint.json'), 'utf-8'));
+    assert.deepEqual(checkpoint.nextPageUrls, {
+      '/sygrafeas/anthologia-1466': null,
+      '/ekdotis/polis-12': null,
+    });
+    assert.equal(Object.keys(checkpoint.linkSeeds).length, simulator.bookCount);
+  });
+});
@@ -0,0 +1,69 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SiteSimulator } from '../src/testing/siteSimulator.js';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+// A healthy catalogue, and one whose books all lost their recommendations
+const { baseUrl } = await setUpTestEnvironment('selector-health', { pageCount: 3, booksPerPage: 4 }, () => ({ MAX_RETRIES: '1' }));
+const emptySimulator = new SiteSimulator({ pageCount: 1, booksPerPage: 3, recommendations: () => 0 });
+const emptyBaseUrl = await emptySimulator.start();
+after(() => emptySimulator.stop());
+
+const { getConfig } = await import('../src/config.js');
+const { checkSelectors, renderHealthReport } = await import('../src/selectorHealth.js');
+const { PoliteianetAdapter, POLITEIANET_SELECTORS } = await import('../src/adapters/index.js');
+const { createFetcher } = await import('../src/services/fetcher.js');
+import type { SiteAdapter } from '../src/types.js';
+
+const check = (adapter: SiteAdapter) => checkSelectors(
+  adapter,
+  createFetcher('http', getConfig(), logger),
+  createFetcher('http', getConfig(), logger),
+  ['/sygrafeas/anthologia-1466'],
+  3,
+  logger
+);
+
+describe('checkSelectors', () => {
+  test('reports a healthy site with match counts for every selector', async () => {
+    const report = await check(new PoliteianetAdapter(baseUrl));
+
+    assert.equal(report.healthy, true, renderHealthReport(report));
+    assert.equal(report.listingPages.length, 1);
+    assert.equal(report.bookPages.length, 3);
+    assert.deepEqual(
+      report.checks.map(check => check.name).sort(),
+      Object.keys(POLITEIANET_SELECTORS).sort()
+    );
+    const bookLinks = report.checks.find(check => check.name === 'bookLinks')!;
+    assert.equal(bookLinks.matches, 4);
+    assert.equal(bookLinks.severity, 'ok');
+    // The simulator has no Joomla next item, so the pager fallback is used
+    assert.equal(report.checks.find(check => check.name === 'nextPage')!.severity, 'ok');
+  });
+
+  test('fails when a required selector no longer matches', async () => {
+    const report = await check(new PoliteianetAdapter(baseUrl, {
+      ...POLITEIANET_SELECTORS,
+      bookTitle: '.product-title',
+      bookIsbn: '.isbn-code',
+    }));
+
+    assert.equal(report.healthy, false);
+    const title = report.checks.find(check => check.name === 'bookTitle')!;
+    assert.equal(title.severity, 'error');
+    assert.equal(title.pagesMatched, 0);
+    assert.equal(report.checks.find(check => check.name === 'bookIsbn')!.severity, 'warning');
+    assert.ok(report.findings.some(finding => finding.message.includes('failed to parse')));
+    assert.match(renderHealthReport(report), /DRIFT DETECTED/);
+  });
+
+  test('flags every sampled book showing zero recommendations', async () => {
+    const report = await check(new PoliteianetAdapter(emptyBaseUrl));
+
+    assert.equal(report.healthy, false);
+    assert.ok(report.findings.some(finding =>
+      finding.severity === 'error' && finding.message.includes('zero recommendations')
+    ));
+  });
+});
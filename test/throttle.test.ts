@@ -0,0 +1,135 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger, setUpTestEnvironment } from './helpers.js';
+
+const RETRY_AFTER_SECONDS = 1;
+
+// Books 2 and 5 are refused with 429 once before the server lets them through
+const { simulator, workDir } = await setUpTestEnvironment('throttle', {
+  pageCount: 2,
+  booksPerPage: 3,
+  recommendations: () => 1,
+  throttledBooks: { 2: 1, 5: 1 },
+  retryAfter: String(RETRY_AFTER_SECONDS),
+}, () => ({ MAX_RETRIES: '1' }));
+
+const { parseRetryAfter, ThrottleController } = await import('../src/services/throttle.js');
+const { HttpFetcher } = await import('../src/services/httpFetcher.js');
+const { getConfig } = await import('../src/config.js');
+const { main } = await import('../src/index.js');
+const { JsonLinesSink } = await import('../src/services/sinks/index.js');
+import type { ScraperConfig } from '../src/types.js';
+
+const limits = (rateLimitPerMinute: number, maxConcurrent: number) =>
+  ({ scraping: { rateLimitPerMinute, maxConcurrent } }) as ScraperConfig;
+
+describe('parseRetryAfter', () => {
+  test('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    assert.equal(parseRetryAfter('120', now), 120000);
+    assert.equal(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now), 30000);
+    assert.equal(parseRetryAfter('Tue, 31 Dec 2024 23:00:00 GMT', now), 0);
+    assert.equal(parseRetryAfter('soon', now), null);
+    assert.equal(parseRetryAfter(null, now), null);
+  });
+});
+
+describe('ThrottleController', () => {
+  test('halves the rate and concurrency on 429 and 503', () => {
+    const throttle = new ThrottleController(limits(600, 8), logger);
+    throttle.recordResponse('/book/1', 429);
+    const { nextRequestInMs, ...stats } = throttle.getStats();
+    assert.deepEqual(
+      { ...stats, pausedUntil: null },
+      { ratePerMinute: 300, concurrency: 4, activeRequests: 0, throttledResponses: 1, pausedUntil: null }
+    );
+    // The next request waits out the halved rate
+    assert.ok(nextRequestInMs > 0 && nextRequestInMs <= 200);
+
+    throttle.recordResponse('/book/2', 503);
+    assert.equal(throttle.getStats().ratePerMinute, 150);
+    assert.equal(throttle.getStats().concurrency, 2);
+    assert.equal(throttle.getStats().throttledResponses, 2);
+  });
+
+  test('ramps back up to the configured limits while responses stay healthy', () => {
+    const throttle = new ThrottleController(limits(600, 8), logger);
+    throttle.recordResponse('/book/1', 429);
+    throttle.recordResponse('/book/1', 429);
+
+    for (let i = 0; i < 10; i++) {
+      throttle.recordResponse('/book/1', 200);
+    }
+    assert.equal(throttle.getStats().ratePerMinute, 210);
+    assert.equal(throttle.getStats().concurrency, 3);
+
+    for (let i = 0; i < 200; i++) {
+      throttle.recordResponse('/book/1', 200);
+    }
+    assert.equal(throttle.getStats().ratePerMinute, 600);
+    assert.equal(throttle.getStats().concurrency, 8);
+  });
+
+  test('holds every request until Retry-After has passed', async () => {
+    const throttle = new ThrottleController(limits(100000, 4), logger);
+    throttle.recordResponse('/book/1', 429, '1');
+    assert.ok(throttle.getStats().pausedUntil instanceof Date);
+
+    const startedAt = Date.now();
+    const release = await throttle.acquire();
+    release();
+    assert.ok(Date.now() - startedAt >= 900, `acquired after ${Date.now() - startedAt}ms`);
+  });
+
+  test('never runs more requests at once than the current concurrency', async () => {
+    const throttle = new ThrottleController(limits(100000, 4), logger);
+    throttle.recordResponse('/book/1', 503);
+
+    let running = 0;
+    let peak = 0;
+    await Promise.all(Array.from({ length: 6 }, async () => {
+      const release = await throttle.acquire();
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+      release();
+    }));
+    assert.equal(peak, 2);
+  });
+});
+
+describe('adaptive throttling', () => {
+  test('the HTTP fetcher backs off on 429 and reports it in its stats', async () => {
+    const config = getConfig();
+    const fetcher = new HttpFetcher(config, logger, new ThrottleController(limits(100000, 4), logger));
+    await fetcher.initialize();
+
+    const startedAt = Date.now();
+    await assert.rejects(fetcher.fetch(simulator.bookUrl(2)), /HTTP 429/);
+    const page = await fetcher.fetch(simulator.bookUrl(2));
+    assert.equal(page.status, 200);
+    assert.ok(Date.now() - startedAt >= RETRY_AFTER_SECONDS * 900, `fetched after ${Date.now() - startedAt}ms`);
+
+    const stats = fetcher.getThrottleStats();
+    assert.equal(stats.throttledResponses, 1);
+    assert.equal(stats.concurrency, 2);
+    await fetcher.close();
+  });
+
+  test('a crawl refused with 429 slows down and still collects every book', async () => {
+    await main({ resume: false });
+
+    const books = await new JsonLinesSink(path.join(workDir, 'books.jsonl'), logger).readAll();
+    assert.deepEqual(
+      books.map(book => book.url).sort(),
+      [1, 2, 3, 4, 5, 6].map(book => simulator.bookUrl(book)).sort()
+    );
+    assert.equal(simulator.requestCount('/book/5'), 2);
+
+    const deadLetter = await fs.readFile(path.join(workDir, 'dead-letter.jsonl'), 'utf-8').catch(() => '');
+    assert.equal(deadLetter.trim(), '');
+  });
+});